@@ -0,0 +1,95 @@
+// Local stand-in for the device gateway used by the Connect page.
+//
+//   GET /devices                  -> list of discoverable devices
+//   WS  /devices/:id/stream       -> one telemetry message per second
+//
+// Run with `npm run mock:gateway` and start the app with
+// VITE_GATEWAY_URL=http://localhost:8080 (the default).
+import { createServer } from 'node:http';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT) || 8080;
+const INTERVAL_MS = Number(process.env.INTERVAL_MS) || 1000;
+
+// Each parameter drifts around `base` and occasionally spikes outside its normal range
+const devices = [
+  {
+    id: 'pump-01',
+    name: 'Industrial Pump',
+    type: 'sensor',
+    parameters: {
+      'Pump Pressure': { base: 60, noise: 3, normalRange: { min: 55, max: 65 } },
+      'Flow Rate': { base: 125, noise: 6, normalRange: { min: 110, max: 140 } },
+    },
+  },
+  {
+    id: 'motor-02',
+    name: 'Motor Controller',
+    type: 'controller',
+    parameters: {
+      'Motor Temperature': { base: 85, noise: 2, normalRange: { min: 80, max: 90 } },
+      'Rotational speed [rpm]': { base: 1500, noise: 60, normalRange: { min: 1300, max: 1700 } },
+      'Torque [Nm]': { base: 40, noise: 4, normalRange: { min: 30, max: 50 } },
+    },
+  },
+  {
+    id: 'hvac-03',
+    name: 'HVAC Unit',
+    type: 'sensor',
+    parameters: {
+      'Air temperature [K]': { base: 300, noise: 1, normalRange: { min: 296, max: 304 } },
+      'Process temperature [K]': { base: 310, noise: 1, normalRange: { min: 306, max: 314 } },
+    },
+  },
+];
+
+const sample = (device) => {
+  const readings = {};
+  const normalRanges = {};
+
+  for (const [name, { base, noise, normalRange }] of Object.entries(device.parameters)) {
+    const spike = Math.random() < 0.05 ? (normalRange.max - normalRange.min) * (Math.random() < 0.5 ? -1 : 1) : 0;
+    readings[name] = Number((base + (Math.random() * 2 - 1) * noise + spike).toFixed(3));
+    normalRanges[name] = normalRange;
+  }
+
+  return { deviceId: device.id, timestamp: new Date().toISOString(), readings, normalRanges };
+};
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.method === 'GET' && req.url === '/devices') {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(devices.map(({ id, name, type }) => ({ id, name, type, status: 'available', protocol: 'ws' }))));
+    return;
+  }
+
+  res.statusCode = 404;
+  res.end('Not found');
+});
+
+const wss = new WebSocketServer({ noServer: true });
+
+server.on('upgrade', (req, socket, head) => {
+  const match = /^\/devices\/([^/]+)\/stream$/.exec(req.url ?? '');
+  const device = match && devices.find((d) => d.id === decodeURIComponent(match[1]));
+
+  if (!device) {
+    socket.destroy();
+    return;
+  }
+
+  wss.handleUpgrade(req, socket, head, (ws) => {
+    console.log(`Streaming ${device.id}`);
+    const timer = setInterval(() => ws.send(JSON.stringify(sample(device))), INTERVAL_MS);
+    ws.on('close', () => {
+      clearInterval(timer);
+      console.log(`Stopped ${device.id}`);
+    });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock gateway listening on http://localhost:${PORT}`);
+});
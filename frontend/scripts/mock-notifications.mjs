@@ -0,0 +1,52 @@
+// Local stand-in for the endpoints notification channels post to.
+//
+//   POST /<anything>              -> logs the JSON body and answers 200
+//   POST /fail/<anything>         -> answers 500, to see failed deliveries
+//
+// Run with `npm run mock:notifications` and point a channel at e.g.
+// http://localhost:8090/webhook, /chat or /email.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8090;
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+  // CORS preflight for the JSON POSTs
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.statusCode = 405;
+    res.end('Method not allowed');
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    let payload = body;
+    try {
+      payload = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // Not JSON; log it as sent
+    }
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url}\n${payload}\n`);
+
+    const fail = req.url?.startsWith('/fail');
+    res.statusCode = fail ? 500 : 200;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(fail ? { detail: 'Simulated failure' } : { ok: true }));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock notification endpoint listening on http://localhost:${PORT}`);
+});
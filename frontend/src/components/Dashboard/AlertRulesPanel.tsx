@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { shallowArrayEqual, useDashboardStore } from './dashboardStore';
+import { getSeverityBadgeClass } from './status';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import { ALERT_RULE_KIND_LABELS, ALERT_SEVERITIES } from '../../types/alerts';
+import type { AlertRule, AlertRuleKind, AlertSeverity, ThresholdOperator } from '../../types/alerts';
+
+const OPERATOR_LABELS: Record<ThresholdOperator, string> = {
+  above: 'Above',
+  below: 'Below',
+  outside: 'Outside normal range',
+};
+
+// The new-rule form keeps numbers as typed until it's submitted
+interface RuleDraft {
+  name: string;
+  kind: AlertRuleKind;
+  parameter: string; // '' for every parameter
+  severity: AlertSeverity;
+  operator: ThresholdOperator;
+  value: string;
+  maxChange: string;
+  count: string;
+  window: string;
+  minScore: string; // Percent
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  kind: 'threshold',
+  parameter: '',
+  severity: 'warning',
+  operator: 'above',
+  value: '',
+  maxChange: '',
+  count: '3',
+  window: '5',
+  minScore: '80',
+};
+
+const describeRule = (rule: AlertRule) => {
+  switch (rule.kind) {
+    case 'threshold':
+      return rule.operator === 'outside' ? 'Outside the normal range' : `${OPERATOR_LABELS[rule.operator]} ${rule.value}`;
+    case 'rateOfChange':
+      return `Changes by ${rule.maxChange} or more between readings`;
+    case 'consecutive':
+      return `${rule.count} of ${rule.window} readings outside the normal range`;
+    case 'failurePrediction':
+      return `Failure probability of ${(rule.minScore * 100).toFixed(0)}% or more`;
+  }
+};
+
+// Throws with a message for the form when a field isn't usable
+const buildRule = (draft: RuleDraft): AlertRule => {
+  const number = (value: string, label: string) => {
+    const parsed = Number(value);
+    if (value.trim() === '' || !Number.isFinite(parsed)) throw new Error(`Enter a number for ${label}`);
+    return parsed;
+  };
+  const base = {
+    id: `rule-${Date.now()}`,
+    name: draft.name.trim() || ALERT_RULE_KIND_LABELS[draft.kind],
+    enabled: true,
+    severity: draft.severity,
+    parameter: draft.parameter || null,
+  };
+
+  switch (draft.kind) {
+    case 'threshold':
+      return {
+        ...base,
+        kind: 'threshold',
+        operator: draft.operator,
+        value: draft.operator === 'outside' ? 0 : number(draft.value, 'the threshold'),
+      };
+    case 'rateOfChange': {
+      const maxChange = number(draft.maxChange, 'the change');
+      if (maxChange <= 0) throw new Error('The change must be greater than 0');
+      return { ...base, kind: 'rateOfChange', maxChange };
+    }
+    case 'consecutive': {
+      const count = number(draft.count, 'N');
+      const window = number(draft.window, 'M');
+      if (!Number.isInteger(count) || !Number.isInteger(window) || count < 1 || count > window || window > 100) {
+        throw new Error('N and M must be whole numbers with 1 ≤ N ≤ M ≤ 100');
+      }
+      return { ...base, kind: 'consecutive', count, window };
+    }
+    case 'failurePrediction': {
+      const minScore = number(draft.minScore, 'the probability');
+      if (minScore <= 0 || minScore > 100) throw new Error('The probability must be between 0 and 100%');
+      return { ...base, kind: 'failurePrediction', minScore: minScore / 100 };
+    }
+  }
+};
+
+const inputClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2';
+
+const AlertRulesPanel = () => {
+  const { alertRules } = useAppState();
+  const dispatch = useAppDispatch();
+  const parameters = useDashboardStore(state => state.equipments.map(eq => eq.name), shallowArrayEqual);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      dispatch({ type: 'saveAlertRule', rule: buildRule(draft) });
+      setDraft(EMPTY_DRAFT);
+      setFormError(null);
+      setIsAdding(false);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Could not add the rule');
+    }
+  };
+
+  const numberField = (label: string, field: 'value' | 'maxChange' | 'count' | 'window' | 'minScore') => (
+    <label className="block">
+      <span>{label}</span>
+      <input
+        type="number"
+        step="any"
+        value={draft[field]}
+        onChange={(e) => updateDraft({ [field]: e.target.value })}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Alert Rules</h2>
+        <button
+          type="button"
+          onClick={() => setIsAdding(!isAdding)}
+          className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+        >
+          {isAdding ? 'Cancel' : 'Add rule'}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-4 text-sm text-gray-600 dark:text-gray-400">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="block">
+              <span>Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder={ALERT_RULE_KIND_LABELS[draft.kind]}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span>Rule</span>
+              <select
+                value={draft.kind}
+                onChange={(e) => updateDraft({ kind: e.target.value as AlertRuleKind })}
+                className={inputClass}
+              >
+                {Object.entries(ALERT_RULE_KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span>Parameter</span>
+              <select
+                value={draft.parameter}
+                onChange={(e) => updateDraft({ parameter: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">All parameters</option>
+                {parameters.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span>Severity</span>
+              <select
+                value={draft.severity}
+                onChange={(e) => updateDraft({ severity: e.target.value as AlertSeverity })}
+                className={`${inputClass} capitalize`}
+              >
+                {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            {draft.kind === 'threshold' && (
+              <>
+                <label className="block">
+                  <span>When the reading is</span>
+                  <select
+                    value={draft.operator}
+                    onChange={(e) => updateDraft({ operator: e.target.value as ThresholdOperator })}
+                    className={inputClass}
+                  >
+                    {Object.entries(OPERATOR_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                {draft.operator !== 'outside' && numberField('Threshold', 'value')}
+              </>
+            )}
+            {draft.kind === 'rateOfChange' && numberField('Change between readings of at least', 'maxChange')}
+            {draft.kind === 'consecutive' && (
+              <>
+                {numberField('Readings outside the range (N)', 'count')}
+                {numberField('Out of the last (M)', 'window')}
+              </>
+            )}
+            {draft.kind === 'failurePrediction' && numberField('Failure probability of at least (%)', 'minScore')}
+            <div>
+              <button
+                type="submit"
+                className="px-4 py-1.5 bg-primary-600 text-white rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+              >
+                Save rule
+              </button>
+            </div>
+          </div>
+          {formError && <p className="text-red-600 dark:text-red-400">{formError}</p>}
+        </form>
+      )}
+
+      {alertRules.length === 0 ? (
+        <div className="text-center text-gray-500 dark:text-gray-400 py-8 text-sm">No alert rules</div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {alertRules.map(rule => (
+            <li key={rule.id} className="px-4 py-3 flex items-center justify-between text-sm">
+              <label className="flex items-center min-w-0">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => dispatch({ type: 'saveAlertRule', rule: { ...rule, enabled: e.target.checked } })}
+                  className="mr-3 accent-primary-600"
+                />
+                <span className={`min-w-0 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <span className="font-medium text-gray-900 dark:text-white">{rule.name}</span>
+                  <span className="block text-gray-500 dark:text-gray-400 truncate">
+                    {ALERT_RULE_KIND_LABELS[rule.kind]} · {rule.parameter ?? 'All parameters'} · {describeRule(rule)}
+                  </span>
+                </span>
+              </label>
+              <div className="flex items-center space-x-3 ml-4">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSeverityBadgeClass(rule.severity)}`}>
+                  {rule.severity}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => dispatch({ type: 'deleteAlertRule', id: rule.id })}
+                  className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
+import { useDashboardStore } from './dashboardStore';
+import { FAILURE_MODES } from '../../utils/failureModes';
+
+const UNSPECIFIED_COLOR = '#9CA3AF';
+
+const AnomalyDistributionCard = () => {
+  const [view, setView] = useState<'status' | 'mode'>('status');
+  const anomalyDistribution = useDashboardStore(state => state.anomalyDistribution);
+  const failureModes = useDashboardStore(state => state.failureModes);
+  const hasFailureModes = failureModes.some(summary => summary.count > 0);
+  const showModes = view === 'mode' && hasFailureModes;
+
+  // PIE CHART DATA
+  const pieChartData = showModes
+    ? failureModes
+        .filter(summary => summary.count > 0)
+        .map(summary => ({
+          name: summary.mode,
+          value: summary.count,
+          color: FAILURE_MODES.find(info => info.mode === summary.mode)?.color || UNSPECIFIED_COLOR
+        }))
+    : [
+        { name: 'Normal', value: anomalyDistribution.normal, color: '#10B981' },
+        { name: 'Warning', value: anomalyDistribution.warning, color: '#F59E0B' },
+        { name: 'Anomaly', value: anomalyDistribution.anomaly, color: '#EF4444' }
+      ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Anomaly Distribution</h2>
+        {hasFailureModes && (
+          <div className="flex items-center space-x-1 text-sm">
+            {(['status', 'mode'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-2 py-1 rounded-md ${view === option
+                  ? 'bg-primary-100 text-primary-700 dark:bg-primary-900 dark:text-primary-300'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                {option === 'status' ? 'Status' : 'Failure mode'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="p-4">
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie
+                data={pieChartData}
+                cx="50%"
+                cy="50%"
+                labelLine={false}
+                outerRadius={80}
+                fill="#8884d8"
+                dataKey="value"
+                isAnimationActive={false}
+                label={({ name, percent }) => `${name}: ${(percent * 100).toFixed(1)}%`}
+              >
+                {pieChartData.map((entry, index) => (
+                  <Cell key={`cell-${index}`} fill={entry.color} />
+                ))}
+              </Pie>
+              <Tooltip formatter={(value) => value.toLocaleString()} />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+        <div className={`grid ${showModes ? 'grid-cols-3 sm:grid-cols-6' : 'grid-cols-3'} gap-2 mt-4 text-center text-sm`}>
+          {pieChartData.map(entry => (
+            <div key={entry.name}>
+              <div className="font-medium" style={{ color: entry.color }}>
+                {entry.value.toLocaleString()}
+              </div>
+              <div className="text-gray-500 dark:text-gray-400">{entry.name}</div>
+            </div>
+          ))}
+        </div>
+        {showModes && (
+          <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 text-center">
+            A record can fail in more than one mode, so these can add up to more than the anomaly count.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnomalyDistributionCard;
@@ -0,0 +1,325 @@
+import { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { shallowArrayEqual, useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getStatusTextColor } from './status';
+import type { Dataset } from '../../types/dataset';
+import type { EquipmentStatus } from '../../types/dashboard';
+import { SERIES_STATUSES } from '../../utils/series';
+import {
+  buildRecordTableData,
+  filterRecordIndices,
+  formatRecordTime,
+  getDistinctValues,
+  PREDICTION_COLUMN,
+  RECORD_COLUMN,
+  SCORE_COLUMN,
+  sortRecordIndices,
+  STATUS_COLUMN,
+  TIME_COLUMN,
+  TYPE_COLUMN,
+} from '../../utils/recordTable';
+import type { RecordFilters, RecordSort, RecordTableData } from '../../utils/recordTable';
+import { downloadBlob, exportRows, toFileStem } from '../../utils/exportResults';
+import type { ExportRow } from '../../utils/exportResults';
+
+const ROW_HEIGHT = 36;
+const MODES_COLUMN = 'failure_modes';
+
+interface TableColumn {
+  key: string;
+  label: string;
+  width: number; // px
+  numeric?: boolean;
+  hasRange?: boolean; // Filtered by a min / max pair
+  sortable?: boolean;
+}
+
+interface AnomalyTableProps {
+  dataset: Dataset;
+}
+
+// Empty or unparsable bounds leave that side of the range open
+const parseBound = (value: string) => {
+  const bound = Number(value);
+  return value.trim() === '' || !Number.isFinite(bound) ? null : bound;
+};
+
+const getCellText = (data: RecordTableData, column: TableColumn, index: number) => {
+  switch (column.key) {
+    case RECORD_COLUMN:
+      return (index + 1).toLocaleString();
+    case TIME_COLUMN:
+      return formatRecordTime(data, index);
+    case TYPE_COLUMN:
+      return data.types[index];
+    case PREDICTION_COLUMN:
+      return data.predictions[index];
+    case STATUS_COLUMN:
+      return SERIES_STATUSES[data.statuses[index]];
+    case MODES_COLUMN:
+      return data.failureModes[index].join(', ');
+    case SCORE_COLUMN:
+      return Number.isFinite(data.numbers[SCORE_COLUMN][index]) ? data.numbers[SCORE_COLUMN][index].toFixed(3) : '';
+    default: {
+      const value = data.numbers[column.key]?.[index];
+      return value !== undefined && Number.isFinite(value) ? value.toFixed(2) : '';
+    }
+  }
+};
+
+// Every dataset record, virtualised, with sorting, per-column filters and search
+const AnomalyTable = ({ dataset }: AnomalyTableProps) => {
+  const store = useDashboardStoreApi();
+  const names = useDashboardStore(state => state.equipments.map(eq => eq.name), shallowArrayEqual);
+  const seriesList = useDashboardStore(state => state.equipments.map(eq => eq.series), shallowArrayEqual);
+  const [search, setSearch] = useState('');
+  const [rangeInputs, setRangeInputs] = useState<Record<string, { min: string; max: string }>>({});
+  const [typeFilter, setTypeFilter] = useState<string | null>(null);
+  const [predictionFilter, setPredictionFilter] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<EquipmentStatus | null>(null);
+  // Most suspicious records first until the user sorts by something else
+  const [sort, setSort] = useState<RecordSort | null>({ column: SCORE_COLUMN, direction: 'desc' });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const data = useMemo(() => {
+    const reference = seriesList[0];
+    if (!reference || !seriesList.every(series => !!series) || reference.values.length !== dataset.data.length) return null;
+    return buildRecordTableData(
+      dataset.data,
+      reference,
+      Object.fromEntries(names.map((name, i) => [name, seriesList[i]!.values]))
+    );
+  }, [dataset, names, seriesList]);
+
+  const typeOptions = useMemo(() => (data ? getDistinctValues(data.types) : []), [data]);
+  const predictionOptions = useMemo(() => (data ? getDistinctValues(data.predictions) : []), [data]);
+
+  const filters = useMemo((): RecordFilters => ({
+    search,
+    ranges: Object.fromEntries(Object.entries(rangeInputs).map(([column, { min, max }]) =>
+      [column, { min: parseBound(min), max: parseBound(max) }]
+    )),
+    type: typeFilter,
+    prediction: predictionFilter,
+    status: statusFilter,
+  }), [search, rangeInputs, typeFilter, predictionFilter, statusFilter]);
+
+  // Typing and sorting stay responsive while a large dataset is refiltered
+  const deferredFilters = useDeferredValue(filters);
+  const deferredSort = useDeferredValue(sort);
+  const filtered = useMemo(() => (data ? filterRecordIndices(data, deferredFilters) : []), [data, deferredFilters]);
+  const view = useMemo(
+    () => (data ? sortRecordIndices([...filtered], data, deferredSort) : []),
+    [data, filtered, deferredSort]
+  );
+  const isStale = filters !== deferredFilters || sort !== deferredSort;
+
+  const virtualizer = useVirtualizer({
+    count: view.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+  });
+
+  if (!data) return null;
+
+  const columns: TableColumn[] = [
+    { key: RECORD_COLUMN, label: '#', width: 80, numeric: true, sortable: true },
+    // Datasets without timestamps are listed by position only
+    ...(data.hasTimestamps ? [{ key: TIME_COLUMN, label: 'Time', width: 180, sortable: true }] : []),
+    { key: TYPE_COLUMN, label: 'Type', width: 80, sortable: true },
+    ...names.map(name => ({ key: name, label: name, width: 150, numeric: true, hasRange: true, sortable: true })),
+    { key: SCORE_COLUMN, label: 'Score', width: 130, numeric: true, hasRange: true, sortable: true },
+    { key: PREDICTION_COLUMN, label: 'Prediction', width: 120, sortable: true },
+    { key: STATUS_COLUMN, label: 'Status', width: 100, sortable: true },
+    { key: MODES_COLUMN, label: 'Failure modes', width: 140 },
+  ];
+  const gridTemplateColumns = columns.map(column => `${column.width}px`).join(' ');
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  const toggleSort = (column: string) => {
+    setSort(current => current?.column === column
+      ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : { column, direction: 'asc' });
+  };
+
+  const setRangeInput = (column: string, bound: 'min' | 'max', value: string) => {
+    setRangeInputs(inputs => ({ ...inputs, [column]: { ...(inputs[column] ?? { min: '', max: '' }), [bound]: value } }));
+  };
+
+  const hasFilters = search !== '' || typeFilter !== null || predictionFilter !== null || statusFilter !== null ||
+    Object.values(rangeInputs).some(({ min, max }) => min !== '' || max !== '');
+
+  const clearFilters = () => {
+    setSearch('');
+    setRangeInputs({});
+    setTypeFilter(null);
+    setPredictionFilter(null);
+    setStatusFilter(null);
+  };
+
+  // The filtered, sorted records as they appear in the table
+  const exportView = () => {
+    const rows = view.map(index => {
+      const row: ExportRow = { record: index + 1 };
+      if (data.hasTimestamps) row.timestamp = new Date(data.times[index]).toISOString();
+      row.Type = data.types[index];
+      names.forEach(name => {
+        row[name] = Number.isFinite(data.numbers[name][index]) ? data.numbers[name][index] : null;
+      });
+      row.probability = data.numbers[SCORE_COLUMN][index];
+      row.Prediction = data.predictions[index];
+      row.status = SERIES_STATUSES[data.statuses[index]];
+      row.failure_modes = data.failureModes[index].join(';');
+      return row;
+    });
+    downloadBlob(exportRows(rows, 'csv'), `${toFileStem(dataset.name)}-table.csv`);
+  };
+
+  const filterInputClass = 'w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded px-1 py-0.5 text-xs font-normal';
+
+  const renderFilter = (column: TableColumn) => {
+    if (column.hasRange) {
+      const inputs = rangeInputs[column.key] ?? { min: '', max: '' };
+      return (
+        <div className="flex space-x-1">
+          <input
+            type="number"
+            value={inputs.min}
+            onChange={(e) => setRangeInput(column.key, 'min', e.target.value)}
+            placeholder="Min"
+            aria-label={`${column.label} minimum`}
+            className={filterInputClass}
+          />
+          <input
+            type="number"
+            value={inputs.max}
+            onChange={(e) => setRangeInput(column.key, 'max', e.target.value)}
+            placeholder="Max"
+            aria-label={`${column.label} maximum`}
+            className={filterInputClass}
+          />
+        </div>
+      );
+    }
+
+    const select = (value: string | null, options: string[], onChange: (value: string | null) => void) => (
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : e.target.value)}
+        aria-label={`Filter ${column.label}`}
+        className={filterInputClass}
+      >
+        <option value="">All</option>
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    );
+
+    switch (column.key) {
+      case TYPE_COLUMN:
+        return select(typeFilter, typeOptions, setTypeFilter);
+      case PREDICTION_COLUMN:
+        return select(predictionFilter, predictionOptions, setPredictionFilter);
+      case STATUS_COLUMN:
+        return select(statusFilter, SERIES_STATUSES, value => setStatusFilter(value as EquipmentStatus | null));
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap gap-2 justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">All Records</h2>
+        <div className="flex items-center space-x-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search records..."
+            className="bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm"
+          />
+          <button
+            type="button"
+            onClick={exportView}
+            disabled={view.length === 0}
+            className="px-3 py-1 text-sm bg-white text-primary-600 border border-primary-600 rounded-md hover:bg-primary-50 disabled:opacity-50 dark:bg-gray-800 dark:text-primary-400 dark:border-primary-500 dark:hover:bg-gray-750"
+          >
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="h-[480px] overflow-auto text-sm">
+        <div style={{ width: tableWidth }}>
+          {/* Header and filters stay visible while scrolling */}
+          <div className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700">
+            <div className="grid" style={{ gridTemplateColumns }}>
+              {columns.map(column => (
+                <button
+                  key={column.key}
+                  type="button"
+                  disabled={!column.sortable}
+                  onClick={() => toggleSort(column.key)}
+                  title={column.label}
+                  className={`px-2 pt-2 pb-1 font-medium text-gray-700 dark:text-gray-300 truncate enabled:hover:text-primary-600 disabled:cursor-default ${column.numeric ? 'text-right' : 'text-left'}`}
+                >
+                  {column.label}
+                  {sort?.column === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                </button>
+              ))}
+            </div>
+            <div className="grid" style={{ gridTemplateColumns }}>
+              {columns.map(column => (
+                <div key={column.key} className="px-2 pb-2">{renderFilter(column)}</div>
+              ))}
+            </div>
+          </div>
+
+          <div className={`relative ${isStale ? 'opacity-60' : ''}`} style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const index = view[item.index];
+              const status = SERIES_STATUSES[data.statuses[index]];
+              return (
+                <div
+                  key={index}
+                  onClick={() => store.setState({ explainedRecordIndex: index })}
+                  className={`absolute left-0 grid items-center cursor-pointer border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                    status === 'anomaly' ? 'bg-red-50/60 dark:bg-red-900/10' : ''}`}
+                  style={{ gridTemplateColumns, width: tableWidth, height: ROW_HEIGHT, transform: `translateY(${item.start}px)` }}
+                >
+                  {columns.map(column => (
+                    <div
+                      key={column.key}
+                      className={`px-2 truncate ${column.numeric ? 'text-right tabular-nums' : ''} ${
+                        column.key === STATUS_COLUMN ? `capitalize ${getStatusTextColor(status)}` : 'text-gray-900 dark:text-gray-100'}`}
+                    >
+                      {getCellText(data, column, index)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+          {view.length === 0 && !isStale && (
+            <div className="text-center text-gray-500 dark:text-gray-400 py-16">No records match the filters</div>
+          )}
+        </div>
+      </div>
+
+      <div className="p-3 border-t border-gray-200 dark:border-gray-700 flex justify-between items-center text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {view.length.toLocaleString()} of {data.count.toLocaleString()} records
+          {!data.hasTimestamps && ' · No timestamps, records are numbered by position'}
+        </span>
+        {hasFilters && (
+          <button type="button" onClick={clearFilters} className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500">
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnomalyTable;
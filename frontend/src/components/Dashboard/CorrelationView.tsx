@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { shallowArrayEqual, useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getStatusStroke } from './status';
+import type { EquipmentStatus } from '../../types/dashboard';
+import { CORRELATION_METHOD_LABELS, correlationMatrix } from '../../utils/correlation';
+import type { CorrelationMethod } from '../../utils/correlation';
+import { sampleIndices, SERIES_STATUSES } from '../../utils/series';
+
+// Points per pair in the large scatter plot and in each small matrix cell
+const SCATTER_POINTS = 1500;
+const MATRIX_POINTS = 300;
+const MATRIX_CELL_SIZE = 72;
+
+const STATUS_LABELS: Record<EquipmentStatus, string> = {
+  normal: 'Normal',
+  warning: 'Warning',
+  anomaly: 'Anomaly',
+};
+
+// "Torque [Nm]" -> "Torque" for the axis labels of the grid
+const shortName = (name: string) => name.replace(/\s*\[[^\]]*\]$/, '');
+
+// Red for features rising together, blue for one falling as the other rises
+const getCorrelationColor = (r: number) =>
+  Number.isNaN(r) ? '#E5E7EB' : r >= 0 ? `rgba(239, 68, 68, ${Math.abs(r)})` : `rgba(59, 130, 246, ${Math.abs(r)})`;
+
+const CorrelationView = () => {
+  const store = useDashboardStoreApi();
+  const names = useDashboardStore(state => state.equipments.map(eq => eq.name), shallowArrayEqual);
+  // Series references survive playback updates, so correlations aren't recomputed per tick
+  const seriesList = useDashboardStore(state => state.equipments.map(eq => eq.series), shallowArrayEqual);
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [selectedPair, setSelectedPair] = useState<[number, number] | null>(null);
+
+  const isDataset = seriesList.length > 1 && seriesList.every(series => !!series);
+
+  const matrix = useMemo(
+    () => (isDataset ? correlationMatrix(seriesList.map(series => series!.values), method) : []),
+    [isDataset, seriesList, method]
+  );
+
+  const statuses = isDataset ? seriesList[0]!.statuses : null;
+  const scatterIndices = useMemo(() => (statuses ? sampleIndices(statuses, SCATTER_POINTS) : []), [statuses]);
+  const matrixIndices = useMemo(() => (statuses ? sampleIndices(statuses, MATRIX_POINTS) : []), [statuses]);
+
+  // Until a cell is clicked, show the most strongly correlated pair
+  const activePair = useMemo((): [number, number] | null => {
+    if (selectedPair && selectedPair[0] < matrix.length && selectedPair[1] < matrix.length) return selectedPair;
+    let strongest: [number, number] | null = null;
+    matrix.forEach((row, i) => row.forEach((r, j) => {
+      if (j > i && !Number.isNaN(r) && (!strongest || Math.abs(r) > Math.abs(matrix[strongest[0]][strongest[1]]))) {
+        strongest = [i, j];
+      }
+    }));
+    return strongest;
+  }, [selectedPair, matrix]);
+
+  const scatterData = useMemo(() => {
+    const groups: Record<EquipmentStatus, { x: number; y: number; index: number }[]> = { normal: [], warning: [], anomaly: [] };
+    if (!activePair || !statuses) return groups;
+    const xs = seriesList[activePair[0]]!.values;
+    const ys = seriesList[activePair[1]]!.values;
+    scatterIndices.forEach(index => {
+      if (Number.isFinite(xs[index]) && Number.isFinite(ys[index])) {
+        groups[SERIES_STATUSES[statuses[index]]].push({ x: xs[index], y: ys[index], index });
+      }
+    });
+    return groups;
+  }, [activePair, statuses, seriesList, scatterIndices]);
+
+  // Each feature's extent over the matrix sample, to place points inside a cell
+  const extents = useMemo(() => seriesList.map(series => {
+    let min = Infinity;
+    let max = -Infinity;
+    matrixIndices.forEach(index => {
+      const value = series?.values[index] ?? NaN;
+      if (Number.isFinite(value)) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    });
+    return { min, span: max > min ? max - min : 1 };
+  }), [seriesList, matrixIndices]);
+
+  if (!isDataset) return null;
+
+  const toCell = (value: number, feature: number) =>
+    4 + ((value - extents[feature].min) / extents[feature].span) * (MATRIX_CELL_SIZE - 8);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Feature Correlations</h2>
+        <div className="flex items-center space-x-1 text-sm">
+          {Object.entries(CORRELATION_METHOD_LABELS).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMethod(value as CorrelationMethod)}
+              className={`px-2 py-1 rounded-md ${method === value
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900 dark:text-primary-300'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Heatmap; clicking a cell plots that pair */}
+        <div>
+          <div
+            className="grid gap-1 text-xs"
+            style={{ gridTemplateColumns: `minmax(0, 7rem) repeat(${names.length}, minmax(0, 1fr))` }}
+          >
+            <div />
+            {names.map(name => (
+              <div key={name} className="truncate text-center text-gray-500 dark:text-gray-400" title={name}>
+                {shortName(name)}
+              </div>
+            ))}
+            {matrix.map((row, i) => (
+              <div key={names[i]} className="contents">
+                <div className="truncate self-center text-gray-500 dark:text-gray-400" title={names[i]}>
+                  {shortName(names[i])}
+                </div>
+                {row.map((r, j) => (
+                  <button
+                    key={names[j]}
+                    type="button"
+                    disabled={i === j}
+                    onClick={() => setSelectedPair([i, j])}
+                    title={`${names[i]} × ${names[j]}: ${Number.isNaN(r) ? 'n/a' : r.toFixed(3)}`}
+                    className={`h-10 rounded font-medium disabled:cursor-default ${
+                      activePair && activePair[0] === i && activePair[1] === j ? 'ring-2 ring-primary-500' : ''
+                    } ${Math.abs(r) > 0.5 ? 'text-white' : 'text-gray-800 dark:text-gray-200'}`}
+                    style={{ backgroundColor: getCorrelationColor(r) }}
+                  >
+                    {Number.isNaN(r) ? '–' : r.toFixed(2)}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+            {method === 'pearson'
+              ? 'Pearson measures linear relationships.'
+              : 'Spearman compares ranks, so it also catches relationships that are monotonic but not linear.'}
+            {' '}Click a cell to plot that pair.
+          </p>
+        </div>
+
+        {/* Scatter plot of the selected pair, flagged records on top */}
+        <div className="h-80">
+          {activePair && (
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 10, right: 20, left: 10, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  type="number"
+                  dataKey="x"
+                  name={names[activePair[0]]}
+                  domain={['auto', 'auto']}
+                  label={{ value: names[activePair[0]], position: 'insideBottom', offset: -10, fontSize: 12 }}
+                />
+                <YAxis
+                  type="number"
+                  dataKey="y"
+                  name={names[activePair[1]]}
+                  domain={['auto', 'auto']}
+                  label={{ value: names[activePair[1]], angle: -90, position: 'insideLeft', fontSize: 12 }}
+                />
+                <Tooltip cursor={{ strokeDasharray: '3 3' }} formatter={(value) => Number(value).toFixed(2)} />
+                <Legend verticalAlign="top" />
+                {SERIES_STATUSES.map(status => (
+                  <Scatter
+                    key={status}
+                    name={STATUS_LABELS[status]}
+                    data={scatterData[status]}
+                    fill={getStatusStroke(status)}
+                    fillOpacity={status === 'normal' ? 0.35 : 0.9}
+                    isAnimationActive={false}
+                    onClick={(point) => {
+                      if (status !== 'normal') store.setState({ explainedRecordIndex: point.payload.index });
+                    }}
+                  />
+                ))}
+              </ScatterChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      {/* Scatter-plot matrix of every pair */}
+      <div className="px-4 pb-4 overflow-x-auto">
+        <h3 className="font-medium text-gray-900 dark:text-white mb-2">Scatter-plot matrix</h3>
+        <div className="inline-grid gap-1" style={{ gridTemplateColumns: `repeat(${names.length}, ${MATRIX_CELL_SIZE}px)` }}>
+          {names.map((rowName, row) => names.map((columnName, column) => (
+            row === column ? (
+              <div
+                key={`${rowName}-${columnName}`}
+                className="flex items-center justify-center text-center text-xs text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 rounded"
+                style={{ height: MATRIX_CELL_SIZE }}
+                title={rowName}
+              >
+                {shortName(rowName)}
+              </div>
+            ) : (
+              <svg
+                key={`${rowName}-${columnName}`}
+                width={MATRIX_CELL_SIZE}
+                height={MATRIX_CELL_SIZE}
+                onClick={() => setSelectedPair([column, row])}
+                className="cursor-pointer rounded border border-gray-200 dark:border-gray-700 hover:border-primary-500"
+              >
+                <title>{`${columnName} × ${rowName}`}</title>
+                {matrixIndices.map(index => {
+                  const x = seriesList[column]!.values[index];
+                  const y = seriesList[row]!.values[index];
+                  if (!Number.isFinite(x) || !Number.isFinite(y)) return null;
+                  const status = SERIES_STATUSES[statuses![index]];
+                  return (
+                    <circle
+                      key={index}
+                      cx={toCell(x, column)}
+                      cy={MATRIX_CELL_SIZE - toCell(y, row)}
+                      r={status === 'normal' ? 1 : 1.8}
+                      fill={getStatusStroke(status)}
+                      fillOpacity={status === 'normal' ? 0.4 : 0.9}
+                    />
+                  );
+                })}
+              </svg>
+            )
+          )))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CorrelationView;
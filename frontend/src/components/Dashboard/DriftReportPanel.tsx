@@ -0,0 +1,126 @@
+import { motion } from 'framer-motion';
+import { getDriftBadgeClass } from './status';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import type { Dataset } from '../../types/dataset';
+import { DRIFT_LEVEL_LABELS } from '../../types/drift';
+import type { DriftReport } from '../../types/drift';
+import { buildBaselineProfile } from '../../utils/drift';
+
+interface DriftReportPanelProps {
+  dataset: Dataset;
+  report: DriftReport;
+  onClose: () => void;
+}
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+// Per-feature drift of the loaded dataset against the stored baseline profile
+const DriftReportPanel = ({ dataset, report, onClose }: DriftReportPanelProps) => {
+  const { driftBaseline } = useAppState();
+  const dispatch = useAppDispatch();
+  const isBaseline = driftBaseline.datasetId === dataset.id;
+
+  const setAsBaseline = () => {
+    if (!window.confirm(`Check future uploads against "${dataset.name}" instead of "${driftBaseline.name}"?`)) return;
+    dispatch({ type: 'setDriftBaseline', baseline: buildBaselineProfile(dataset.data, dataset.name, dataset.id) });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8"
+    >
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Data Drift</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Against {report.baselineName}
+            {driftBaseline.datasetId && ` (set ${new Date(driftBaseline.createdAt).toLocaleDateString()})`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-4 text-sm">
+          {driftBaseline.datasetId && (
+            <button
+              type="button"
+              onClick={() => dispatch({ type: 'setDriftBaseline', baseline: null })}
+              className="font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            >
+              Reset to training baseline
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={setAsBaseline}
+            disabled={isBaseline}
+            className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            {isBaseline ? 'This dataset is the baseline' : 'Use as baseline'}
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4">
+        {report.features.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            None of this dataset's features are in the baseline, so drift can't be measured.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-2 pr-4 font-medium">Feature</th>
+                  <th className="py-2 px-4 font-medium text-right">Baseline mean</th>
+                  <th className="py-2 px-4 font-medium text-right">Mean</th>
+                  <th className="py-2 px-4 font-medium text-right" title="Population stability index: under 0.1 is stable, over 0.25 has shifted">PSI</th>
+                  <th className="py-2 px-4 font-medium text-right">KS statistic</th>
+                  <th className="py-2 px-4 font-medium text-right">KS p-value</th>
+                  <th className="py-2 px-4 font-medium text-right" title="Values outside the baseline's minimum and maximum">Out of range</th>
+                  <th className="py-2 pl-4 font-medium">Drift</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {report.features.map(item => (
+                  <tr key={item.feature}>
+                    <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{item.feature}</td>
+                    <td className="py-2 px-4 text-right text-gray-500 dark:text-gray-400">{item.baselineMean.toFixed(2)}</td>
+                    <td className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">{item.mean.toFixed(2)}</td>
+                    <td className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">{item.psi.toFixed(3)}</td>
+                    <td className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">{item.ksStatistic.toFixed(3)}</td>
+                    <td className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">{formatPValue(item.ksPValue)}</td>
+                    <td className="py-2 px-4 text-right text-gray-700 dark:text-gray-300">
+                      {item.outOfRange.toLocaleString()}
+                      <span className="text-gray-500 dark:text-gray-400"> ({((item.outOfRange / item.count) * 100).toFixed(1)}%)</span>
+                    </td>
+                    <td className="py-2 pl-4">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${getDriftBadgeClass(item.level)}`}>
+                        {DRIFT_LEVEL_LABELS[item.level]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {(report.missingFeatures.length > 0 || report.newFeatures.length > 0) && (
+          <div className="mt-4 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+            {report.missingFeatures.length > 0 && <p>Missing from this dataset: {report.missingFeatures.join(', ')}</p>}
+            {report.newFeatures.length > 0 && <p>Not in the baseline, so not checked: {report.newFeatures.join(', ')}</p>}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default DriftReportPanel;
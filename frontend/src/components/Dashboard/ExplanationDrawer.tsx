@@ -0,0 +1,185 @@
+import { useEffect, useMemo } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, ReferenceLine, Tooltip, ResponsiveContainer } from 'recharts';
+import type { Dataset } from '../../types/dataset';
+import { useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { computeFeatureBaselines, explainRecord } from '../../utils/explanations';
+import { getFailureModeInfo, getFailureModes } from '../../utils/failureModes';
+import { getFailureScore } from '../../utils/predictions';
+import { buildWorkOrderDraft } from '../../utils/workOrders';
+
+interface ExplanationDrawerProps {
+  dataset: Dataset | null;
+}
+
+const ExplanationDrawer = ({ dataset }: ExplanationDrawerProps) => {
+  const store = useDashboardStoreApi();
+  const recordIndex = useDashboardStore(state => state.explainedRecordIndex);
+  const record = dataset && recordIndex !== null ? dataset.data[recordIndex] : undefined;
+  const isOpen = !!record;
+
+  // Baselines cover the whole dataset, so only work them out while the drawer is open
+  const baselines = useMemo(
+    () => (dataset && isOpen ? computeFeatureBaselines(dataset.data) : {}),
+    [dataset, isOpen]
+  );
+  const explanation = useMemo(() => (record ? explainRecord(record, baselines) : null), [record, baselines]);
+
+  const close = () => store.setState({ explainedRecordIndex: null });
+
+  // Raised against the parameter that contributed most, or the first one
+  const createWorkOrder = () => {
+    if (recordIndex === null || !explanation) return;
+    const { equipments } = store.getState();
+    const topFeature = explanation.contributions[0]?.feature;
+    const equipment = equipments.find(eq => eq.name === topFeature) ?? equipments[0];
+    if (!equipment) return;
+    store.setState({ explainedRecordIndex: null, workOrderDraft: buildWorkOrderDraft(equipments, equipment.id, recordIndex) });
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') store.setState({ explainedRecordIndex: null });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, store]);
+
+  return (
+    <AnimatePresence>
+      {record && explanation && (
+        <>
+          <motion.div
+            key="backdrop"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={close}
+            className="fixed inset-0 bg-black/30 z-40"
+          />
+          <motion.aside
+            key="drawer"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.25 }}
+            className="fixed top-0 right-0 h-full w-full max-w-md bg-white dark:bg-gray-800 shadow-xl z-50 overflow-y-auto"
+            role="dialog"
+            aria-label="Record explanation"
+          >
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Record {recordIndex! + 1}
+                </h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {record.timestamp ? new Date(record.timestamp).toLocaleString() : `Type ${record.Type}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={close}
+                className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                aria-label="Close"
+              >
+                <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <div className="p-4 space-y-6">
+              {/* Model output */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Prediction</div>
+                  <div className={`font-medium ${record.Prediction === 'Failure' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                    {record.Prediction}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">Failure score</div>
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {(getFailureScore(record) * 100).toFixed(1)}%
+                  </div>
+                </div>
+              </div>
+              {getFailureModes(record).length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {getFailureModes(record).map(mode => (
+                    <span
+                      key={mode}
+                      className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                      style={{ backgroundColor: getFailureModeInfo(mode).color }}
+                    >
+                      {getFailureModeInfo(mode).label}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {/* Feature contributions */}
+              <div>
+                <h3 className="font-medium text-gray-900 dark:text-white">What drove this prediction</h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {explanation.source === 'model'
+                    ? 'Feature attributions reported by the model (SHAP). Positive values push toward failure.'
+                    : 'Estimated from how far each feature is from normal records, in standard deviations, toward the side failures fall on.'}
+                </p>
+                <ResponsiveContainer width="100%" height={explanation.contributions.length * 36 + 40} className="mt-2">
+                  <BarChart
+                    layout="vertical"
+                    data={explanation.contributions}
+                    margin={{ top: 5, right: 20, left: 10, bottom: 5 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" tickFormatter={(value) => Number(value).toFixed(1)} />
+                    <YAxis dataKey="feature" type="category" width={140} tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value) => Number(value).toFixed(3)} />
+                    <ReferenceLine x={0} stroke="#9CA3AF" />
+                    <Bar dataKey="contribution" name="Contribution" barSize={18} isAnimationActive={false}>
+                      {explanation.contributions.map(item => (
+                        <Cell key={item.feature} fill={item.contribution > 0 ? '#EF4444' : '#10B981'} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+
+              {/* Values against the normal baseline */}
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400">
+                    <th className="py-1 font-medium">Feature</th>
+                    <th className="py-1 font-medium text-right">Value</th>
+                    <th className="py-1 font-medium text-right">Normal mean</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {explanation.contributions.map(item => (
+                    <tr key={item.feature}>
+                      <td className="py-1 text-gray-900 dark:text-white">{item.feature}</td>
+                      <td className="py-1 text-right text-gray-900 dark:text-white">{item.value.toFixed(2)}</td>
+                      <td className="py-1 text-right text-gray-500 dark:text-gray-400">{item.baseline.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <button
+                type="button"
+                onClick={createWorkOrder}
+                className="w-full px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+              >
+                Create work order
+              </button>
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default ExplanationDrawer;
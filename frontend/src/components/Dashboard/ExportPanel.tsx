@@ -0,0 +1,184 @@
+import { useMemo, useState } from 'react';
+import { shallowArrayEqual, useDashboardStore } from './dashboardStore';
+import type { Dataset } from '../../types/dataset';
+import { getChartWindow, SERIES_STATUSES } from '../../utils/series';
+import {
+  buildExportRows,
+  downloadBlob,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_STATUS_LABELS,
+  exportRows,
+  matchesStatusFilter,
+  toFileStem,
+} from '../../utils/exportResults';
+import type { ExportFormat, ExportStatusFilter } from '../../utils/exportResults';
+
+interface ExportPanelProps {
+  dataset: Dataset;
+}
+
+// Download the scored records, filtered by status, the charts' time range and features
+const ExportPanel = ({ dataset }: ExportPanelProps) => {
+  const features = useDashboardStore(state => state.equipments.map(eq => eq.name), shallowArrayEqual);
+  // Score bands of every record; all dataset parameters share them
+  const series = useDashboardStore(state => state.equipments[0]?.series);
+  const timeRange = useDashboardStore(state => state.timeRange);
+  const zoom = useDashboardStore(state => state.zoom);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [statusFilter, setStatusFilter] = useState<ExportStatusFilter>('all');
+  const [useChartWindow, setUseChartWindow] = useState(false);
+  const [excludedFeatures, setExcludedFeatures] = useState<string[]>([]);
+  const [includeExplanations, setIncludeExplanations] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const chartWindow = useMemo(
+    () => (series ? getChartWindow(series, timeRange, zoom) : { start: 0, end: 0 }),
+    [series, timeRange, zoom]
+  );
+  const isChartWindowNarrower = !!series && chartWindow.end - chartWindow.start < series.values.length;
+  const [start, end] = useChartWindow && isChartWindowNarrower
+    ? [chartWindow.start, chartWindow.end]
+    : [0, series?.values.length ?? 0];
+
+  const matchingCount = useMemo(() => {
+    if (!series) return 0;
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      if (matchesStatusFilter(SERIES_STATUSES[series.statuses[i]], statusFilter)) count++;
+    }
+    return count;
+  }, [series, start, end, statusFilter]);
+
+  if (!series) return null;
+
+  const selectedFeatures = features.filter(feature => !excludedFeatures.includes(feature));
+
+  const toggleFeature = (feature: string) => {
+    setExcludedFeatures(excluded => excluded.includes(feature)
+      ? excluded.filter(name => name !== feature)
+      : [...excluded, feature]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    // Let the button show its busy state before the export blocks the main thread
+    await new Promise(resolve => setTimeout(resolve));
+
+    try {
+      const statuses = Array.from(series.statuses, code => SERIES_STATUSES[code]);
+      const rows = buildExportRows(dataset.data, statuses, {
+        statusFilter,
+        start,
+        end,
+        features: selectedFeatures,
+        includeExplanations,
+      });
+      const suffix = statusFilter === 'all' ? '' : `-${statusFilter === 'anomaly' ? 'anomalies' : 'flagged'}`;
+      downloadBlob(exportRows(rows, format), `${toFileStem(dataset.name)}${suffix}.${format}`);
+    } catch (error) {
+      console.error('Error exporting results:', error);
+      setExportError(error instanceof Error ? error.message : 'Failed to export the results');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Export Results</h2>
+      </div>
+      <div className="p-4 space-y-4 text-sm">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block">
+            <span className="text-gray-700 dark:text-gray-300">Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2"
+            >
+              {Object.entries(EXPORT_FORMAT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-700 dark:text-gray-300">Records</span>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ExportStatusFilter)}
+              className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2"
+            >
+              {Object.entries(EXPORT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="space-y-2 md:pt-6">
+            <label
+              className={`flex items-center space-x-2 ${isChartWindowNarrower ? '' : 'opacity-40'}`}
+              title={isChartWindowNarrower ? undefined : 'Pick a time range or zoom in on the parameter chart first'}
+            >
+              <input
+                type="checkbox"
+                checked={useChartWindow && isChartWindowNarrower}
+                disabled={!isChartWindowNarrower}
+                onChange={(e) => setUseChartWindow(e.target.checked)}
+              />
+              <span className="text-gray-700 dark:text-gray-300">Only the charted time range</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={includeExplanations}
+                onChange={(e) => setIncludeExplanations(e.target.checked)}
+              />
+              <span className="text-gray-700 dark:text-gray-300">Include per-feature explanations</span>
+            </label>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-gray-700 dark:text-gray-300 mb-2">Features</div>
+          <div className="flex flex-wrap gap-2">
+            {features.map(feature => (
+              <label
+                key={feature}
+                className="flex items-center space-x-1 px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600"
+              >
+                <input
+                  type="checkbox"
+                  checked={!excludedFeatures.includes(feature)}
+                  onChange={() => toggleFeature(feature)}
+                />
+                <span className="text-gray-700 dark:text-gray-300">{feature}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-gray-500 dark:text-gray-400">
+            {matchingCount.toLocaleString()} of {series.values.length.toLocaleString()} records match.
+            The score_band column follows the current score bands; Prediction is the model's original verdict.
+          </span>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || matchingCount === 0}
+            className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-60 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+          >
+            {isExporting ? 'Exporting...' : `Export ${EXPORT_FORMAT_LABELS[format].split(' ')[0]}`}
+          </button>
+        </div>
+        {exportError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{exportError}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,55 @@
+import { LineChart, Line, ResponsiveContainer } from 'recharts';
+import { useDashboardStore } from './dashboardStore';
+import { FAILURE_MODES } from '../../utils/failureModes';
+
+// Per-mode anomaly counts, each with its trend across the run and what maintenance should do
+const FailureModeBreakdown = () => {
+  const failureModes = useDashboardStore(state => state.failureModes);
+  const total = failureModes.reduce((sum, summary) => sum + summary.count, 0);
+
+  if (total === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Failure Modes</h2>
+      </div>
+      <div className="p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {failureModes.filter(summary => summary.count > 0).map(summary => {
+          const info = FAILURE_MODES.find(mode => mode.mode === summary.mode);
+          const color = info?.color || '#9CA3AF';
+
+          return (
+            <div key={summary.mode} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: color }}></span>
+                    {summary.mode}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{info?.label || 'No mode reported'}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-lg font-bold" style={{ color }}>{summary.count.toLocaleString()}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{((summary.count / total) * 100).toFixed(1)}%</div>
+                </div>
+              </div>
+              <div className="h-10 mt-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={summary.trend.map((count, index) => ({ index, count }))}>
+                    <Line type="monotone" dataKey="count" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              {info && (
+                <div className="mt-1 text-xs text-gray-600 dark:text-gray-400">{info.action}</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FailureModeBreakdown;
@@ -0,0 +1,89 @@
+import { NORMAL_RANGE_METHOD_LABELS } from '../../types/normalRanges';
+import type { NormalRangeConfig, NormalRangeMethod } from '../../types/normalRanges';
+
+type NormalRangeSettings = Omit<NormalRangeConfig, 'overrides'>;
+
+interface NormalRangeControlProps {
+  config: NormalRangeConfig;
+  onChange: (settings: Partial<NormalRangeSettings>) => void;
+  onClearOverrides: () => void;
+}
+
+const NormalRangeControl = ({ config, onChange, onClearOverrides }: NormalRangeControlProps) => {
+  const overrideCount = Object.keys(config.overrides).length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-8">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Normal Ranges</h2>
+        {overrideCount > 0 && (
+          <button
+            type="button"
+            onClick={onClearOverrides}
+            className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+          >
+            Clear {overrideCount} custom {overrideCount === 1 ? 'range' : 'ranges'}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm text-gray-600 dark:text-gray-400">
+        <label className="block">
+          <span>Learned from "No Failure" records by</span>
+          <select
+            value={config.method}
+            onChange={(e) => onChange({ method: e.target.value as NormalRangeMethod })}
+            className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2"
+          >
+            {Object.entries(NORMAL_RANGE_METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        {config.method === 'percentile' ? (
+          <label className="block">
+            <span>Percentile trimmed from each tail</span>
+            <input
+              type="number"
+              min={0}
+              max={25}
+              step={0.5}
+              value={config.percentile}
+              onChange={(e) => {
+                const percentile = Number(e.target.value);
+                if (e.target.value !== '' && percentile >= 0 && percentile < 50) onChange({ percentile });
+              }}
+              className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2"
+            />
+          </label>
+        ) : (
+          <label className="block">
+            <span>Standard deviations (k)</span>
+            <input
+              type="number"
+              min={0.5}
+              max={6}
+              step={0.5}
+              value={config.sigma}
+              onChange={(e) => {
+                const sigma = Number(e.target.value);
+                if (e.target.value !== '' && sigma > 0) onChange({ sigma });
+              }}
+              className="mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2"
+            />
+          </label>
+        )}
+        <label className="flex items-center md:mt-6">
+          <input
+            type="checkbox"
+            checked={config.byType}
+            onChange={(e) => onChange({ byType: e.target.checked })}
+            className="mr-2 accent-primary-600"
+          />
+          Separate ranges per machine Type (L/M/H)
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default NormalRangeControl;
@@ -0,0 +1,363 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import { getSeverityBadgeClass } from './status';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import { ALERT_SEVERITIES } from '../../types/alerts';
+import type { AlertSeverity } from '../../types/alerts';
+import {
+  CHANNEL_KIND_LABELS,
+  CHAT_FORMAT_LABELS,
+  DEFAULT_MAX_PER_MINUTE,
+  DEFAULT_WEBHOOK_TEMPLATE,
+  TEMPLATE_FIELDS,
+} from '../../types/notifications';
+import type { ChannelKind, ChatFormat, DeliveryStatus, NotificationChannel } from '../../types/notifications';
+import { buildPayload, createTestMessage, deliverToChannel } from '../../services/notifications';
+
+// Delivery log entries listed under the channels
+const VISIBLE_LOGS = 20;
+
+const STATUS_CLASSES: Record<DeliveryStatus, string> = {
+  sent: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  rateLimited: 'text-yellow-600 dark:text-yellow-400',
+};
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  sent: 'Sent',
+  failed: 'Failed',
+  rateLimited: 'Rate limited',
+};
+
+interface ChannelDraft {
+  name: string;
+  kind: ChannelKind;
+  url: string;
+  minSeverity: AlertSeverity;
+  maxPerMinute: string;
+  bodyTemplate: string;
+  format: ChatFormat;
+  from: string;
+  to: string; // Comma separated
+}
+
+const EMPTY_DRAFT: ChannelDraft = {
+  name: '',
+  kind: 'webhook',
+  url: '',
+  minSeverity: 'warning',
+  maxPerMinute: String(DEFAULT_MAX_PER_MINUTE),
+  bodyTemplate: DEFAULT_WEBHOOK_TEMPLATE,
+  format: 'slack',
+  from: '',
+  to: '',
+};
+
+// Where `npm run mock:notifications` listens
+const URL_PLACEHOLDERS: Record<ChannelKind, string> = {
+  webhook: 'http://localhost:8090/webhook',
+  chat: 'http://localhost:8090/chat',
+  email: 'http://localhost:8090/email',
+};
+
+// Throws with a message for the form when a field isn't usable
+const buildChannel = (draft: ChannelDraft): NotificationChannel => {
+  let url: URL;
+  try {
+    url = new URL(draft.url.trim());
+  } catch {
+    throw new Error('Enter the full URL of the endpoint, e.g. https://example.com/hooks/alerts');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('The URL must use http or https');
+
+  const maxPerMinute = Number(draft.maxPerMinute);
+  if (!Number.isInteger(maxPerMinute) || maxPerMinute < 1) throw new Error('The rate limit must be a whole number of at least 1');
+
+  const base = {
+    id: `channel-${Date.now()}`,
+    name: draft.name.trim() || `${CHANNEL_KIND_LABELS[draft.kind]} (${url.host})`,
+    enabled: true,
+    url: url.toString(),
+    minSeverity: draft.minSeverity,
+    maxPerMinute,
+  };
+
+  switch (draft.kind) {
+    case 'webhook': {
+      const channel: NotificationChannel = { ...base, kind: 'webhook', bodyTemplate: draft.bodyTemplate };
+      // Fails on a template that won't be JSON once filled in
+      buildPayload(channel, createTestMessage());
+      return channel;
+    }
+    case 'chat':
+      return { ...base, kind: 'chat', format: draft.format };
+    case 'email': {
+      const to = draft.to.split(',').map(address => address.trim()).filter(Boolean);
+      if (to.length === 0) throw new Error('Enter at least one recipient');
+      if (!draft.from.trim()) throw new Error('Enter the sender address');
+      return { ...base, kind: 'email', from: draft.from.trim(), to };
+    }
+  }
+};
+
+const inputClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2';
+
+// Webhook, chat and email relay channels that alerts are sent to, with a delivery log
+const NotificationChannelsPanel = () => {
+  const { notificationChannels, deliveryLogs } = useAppState();
+  const dispatch = useAppDispatch();
+  const [draft, setDraft] = useState<ChannelDraft>(EMPTY_DRAFT);
+  const [isAdding, setIsAdding] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [testingIds, setTestingIds] = useState<string[]>([]);
+
+  const updateDraft = (changes: Partial<ChannelDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    try {
+      dispatch({ type: 'saveNotificationChannel', channel: buildChannel(draft) });
+      setDraft(EMPTY_DRAFT);
+      setFormError(null);
+      setIsAdding(false);
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : 'Could not add the channel');
+    }
+  };
+
+  const sendTest = async (channel: NotificationChannel) => {
+    setTestingIds(ids => [...ids, channel.id]);
+    const log = await deliverToChannel(channel, createTestMessage(), true);
+    dispatch({ type: 'addDeliveryLog', log });
+    setTestingIds(ids => ids.filter(id => id !== channel.id));
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mt-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Notification Channels</h2>
+        <button
+          type="button"
+          onClick={() => setIsAdding(!isAdding)}
+          className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+        >
+          {isAdding ? 'Cancel' : 'Add channel'}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-4 text-sm text-gray-600 dark:text-gray-400">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span>Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="On-call"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span>Channel</span>
+              <select
+                value={draft.kind}
+                onChange={(e) => updateDraft({ kind: e.target.value as ChannelKind })}
+                className={inputClass}
+              >
+                {Object.entries(CHANNEL_KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span>{draft.kind === 'email' ? 'Relay endpoint URL' : 'Endpoint URL'}</span>
+              <input
+                type="url"
+                value={draft.url}
+                onChange={(e) => updateDraft({ url: e.target.value })}
+                placeholder={URL_PLACEHOLDERS[draft.kind]}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span>Send alerts from</span>
+              <select
+                value={draft.minSeverity}
+                onChange={(e) => updateDraft({ minSeverity: e.target.value as AlertSeverity })}
+                className={`${inputClass} capitalize`}
+              >
+                {ALERT_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span>At most, per minute</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.maxPerMinute}
+                onChange={(e) => updateDraft({ maxPerMinute: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            {draft.kind === 'chat' && (
+              <label className="block">
+                <span>Message format</span>
+                <select
+                  value={draft.format}
+                  onChange={(e) => updateDraft({ format: e.target.value as ChatFormat })}
+                  className={inputClass}
+                >
+                  {Object.entries(CHAT_FORMAT_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {draft.kind === 'email' && (
+              <>
+                <label className="block">
+                  <span>From</span>
+                  <input
+                    type="email"
+                    value={draft.from}
+                    onChange={(e) => updateDraft({ from: e.target.value })}
+                    placeholder="alerts@example.com"
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block md:col-span-2">
+                  <span>To (comma separated)</span>
+                  <input
+                    type="text"
+                    value={draft.to}
+                    onChange={(e) => updateDraft({ to: e.target.value })}
+                    placeholder="oncall@example.com, maintenance@example.com"
+                    className={inputClass}
+                  />
+                </label>
+              </>
+            )}
+          </div>
+          {draft.kind === 'webhook' && (
+            <label className="block">
+              <span>
+                JSON body. Placeholders: {TEMPLATE_FIELDS.map(field => `{{${field}}}`).join(', ')}
+              </span>
+              <textarea
+                value={draft.bodyTemplate}
+                onChange={(e) => updateDraft({ bodyTemplate: e.target.value })}
+                rows={9}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs`}
+              />
+            </label>
+          )}
+          <div className="flex items-center justify-between">
+            {formError ? <p className="text-red-600 dark:text-red-400">{formError}</p> : <span />}
+            <button
+              type="submit"
+              className="px-4 py-1.5 bg-primary-600 text-white rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+            >
+              Save channel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {notificationChannels.length === 0 ? (
+        <div className="text-center text-gray-500 dark:text-gray-400 py-8 text-sm">
+          Alerts only show in the app until a channel is added
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {notificationChannels.map(channel => (
+            <li key={channel.id} className="px-4 py-3 flex items-center justify-between text-sm">
+              <label className="flex items-center min-w-0">
+                <input
+                  type="checkbox"
+                  checked={channel.enabled}
+                  onChange={(e) => dispatch({ type: 'saveNotificationChannel', channel: { ...channel, enabled: e.target.checked } })}
+                  className="mr-3 accent-primary-600"
+                />
+                <span className={`min-w-0 ${channel.enabled ? '' : 'opacity-50'}`}>
+                  <span className="font-medium text-gray-900 dark:text-white">{channel.name}</span>
+                  <span className="block text-gray-500 dark:text-gray-400 truncate">
+                    {channel.kind === 'chat' ? CHAT_FORMAT_LABELS[channel.format] : CHANNEL_KIND_LABELS[channel.kind]}
+                    {' · '}{channel.url} · up to {channel.maxPerMinute}/min
+                  </span>
+                </span>
+              </label>
+              <div className="flex items-center space-x-3 ml-4">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getSeverityBadgeClass(channel.minSeverity)}`}>
+                  {channel.minSeverity}+
+                </span>
+                <button
+                  type="button"
+                  onClick={() => sendTest(channel)}
+                  disabled={testingIds.includes(channel.id)}
+                  className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {testingIds.includes(channel.id) ? 'Sending...' : 'Send test'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => dispatch({ type: 'deleteNotificationChannel', id: channel.id })}
+                  className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label={`Delete ${channel.name}`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {deliveryLogs.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700">
+          <div className="px-4 pt-3 flex justify-between items-center">
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Delivery Log</h3>
+            <button
+              type="button"
+              onClick={() => dispatch({ type: 'clearDeliveryLogs' })}
+              className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+            >
+              Clear
+            </button>
+          </div>
+          <div className="p-4 overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="pb-2 pr-4 font-medium">Time</th>
+                  <th className="pb-2 pr-4 font-medium">Channel</th>
+                  <th className="pb-2 pr-4 font-medium">Alert</th>
+                  <th className="pb-2 pr-4 font-medium">Status</th>
+                  <th className="pb-2 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-700 dark:text-gray-300">
+                {deliveryLogs.slice(0, VISIBLE_LOGS).map(log => (
+                  <tr key={log.id}>
+                    <td className="py-1.5 pr-4 whitespace-nowrap">{new Date(log.createdAt).toLocaleTimeString()}</td>
+                    <td className="py-1.5 pr-4">{log.channelName}</td>
+                    <td className="py-1.5 pr-4">{log.isTest ? 'Test' : log.alertTitle}</td>
+                    <td className={`py-1.5 pr-4 font-medium ${STATUS_CLASSES[log.status]}`}>{STATUS_LABELS[log.status]}</td>
+                    <td className="py-1.5 text-gray-500 dark:text-gray-400">
+                      {log.error ?? (log.durationMs !== undefined ? `${log.durationMs} ms` : '')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationChannelsPanel;
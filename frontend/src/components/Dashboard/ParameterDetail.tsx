@@ -0,0 +1,393 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
+import { useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getStatusColor, getStatusTextColor } from './status';
+import { PARAMETER_SYNC_ID, syncNearestX } from './chartSync';
+import type { NormalRange } from '../../types/normalRanges';
+import type { TimeRange } from '../../types/dashboard';
+import { lttb } from '../../utils/downsample';
+import {
+  getTimeRangeWindow,
+  HOUR_MS,
+  lowerBound,
+  pointsToSeries,
+  selectChartIndices,
+  SERIES_STATUSES,
+  TIME_RANGES,
+} from '../../utils/series';
+import { buildWorkOrderDraft } from '../../utils/workOrders';
+
+// Points drawn in the detail chart and in the brush overview beneath it
+const DETAIL_POINTS = 1000;
+const OVERVIEW_POINTS = 300;
+const NORMAL_STATUS = SERIES_STATUSES.indexOf('normal');
+
+interface ParameterDetailProps {
+  overrides: Record<string, NormalRange> | null; // Null when ranges can't be edited, e.g. for live readings
+  onOverrideChange: (parameter: string, range: NormalRange | null) => void;
+}
+
+const ParameterDetail = ({ overrides, onOverrideChange }: ParameterDetailProps) => {
+  const store = useDashboardStoreApi();
+  const [rangeDraft, setRangeDraft] = useState<{ parameter: string; min: string; max: string } | null>(null);
+  const [zoomResets, setZoomResets] = useState(0);
+  // Time range and zoom are shared with the sparklines and the overlay chart
+  const timeRange = useDashboardStore(state => state.timeRange);
+  const zoom = useDashboardStore(state => state.zoom);
+  const selectedEquipmentData = useDashboardStore(state =>
+    state.equipments.find(eq => eq.id === state.selectedEquipmentId)
+  );
+
+  // Datasets keep every record in `series`; live readings are converted on the fly
+  const series = useMemo(
+    () => selectedEquipmentData ? selectedEquipmentData.series ?? pointsToSeries(selectedEquipmentData.data) : null,
+    [selectedEquipmentData]
+  );
+  const canBrush = !!selectedEquipmentData?.series;
+
+  // Records in the chosen time range, counted back from the newest one
+  const [rangeStart, rangeEnd] = useMemo(() => {
+    if (!series) return [0, 0];
+    const { start, end } = getTimeRangeWindow(series, timeRange);
+    return [start, end];
+  }, [series, timeRange]);
+
+  // Dataset parameters share their records, so the zoom carries over when switching parameter
+  const view = `${timeRange}:${rangeStart}:${rangeEnd}:${zoomResets}`;
+  const activeZoom = useDeferredValue(canBrush ? zoom : null);
+
+  // Kept stable between renders; recharts resets the brush whenever its data changes
+  const overviewIndices = useMemo(
+    () => (series && canBrush ? lttb(series.times, series.values, OVERVIEW_POINTS, rangeStart, rangeEnd) : []),
+    [series, canBrush, rangeStart, rangeEnd]
+  );
+  const overviewData = useMemo(
+    () => overviewIndices.map(index => ({ x: series!.times[index], value: series!.values[index] })),
+    [series, overviewIndices]
+  );
+
+  // Format chart data for line chart
+  const chartData = useMemo(() => {
+    if (!series) return [];
+    const start = activeZoom ? Math.max(rangeStart, activeZoom.start) : rangeStart;
+    const end = activeZoom ? Math.min(rangeEnd, activeZoom.end) : rangeEnd;
+
+    return selectChartIndices(series, start, end, DETAIL_POINTS).map(index => {
+      const value = series.values[index];
+      const range = series.ranges[series.rangeIndex[index]];
+      const status = SERIES_STATUSES[series.statuses[index]];
+      return {
+        x: series.times[index],
+        index,
+        value,
+        min: range.min,
+        max: range.max,
+        warning: status === 'warning' ? value : null, // Records in the warning score band
+        anomaly: status === 'anomaly' ? value : null // Show only anomaly points
+      };
+    });
+  }, [series, rangeStart, rangeEnd, activeZoom]);
+
+  const formatX = (x: number) => {
+    if (!series?.hasTimestamps) return String(x + 1);
+    const span = chartData.length > 1 ? chartData[chartData.length - 1].x - chartData[0].x : 0;
+    return span > 2 * 24 * HOUR_MS ? new Date(x).toLocaleDateString() : new Date(x).toLocaleTimeString();
+  };
+
+  const selectTimeRange = (range: TimeRange) => {
+    store.setState({ timeRange: range, zoom: null });
+  };
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (!series || startIndex === undefined || endIndex === undefined) return;
+    const isWholeRange = startIndex === 0 && endIndex === overviewIndices.length - 1;
+    store.setState({ zoom: isWholeRange ? null : { start: overviewIndices[startIndex], end: overviewIndices[endIndex] + 1 } });
+  };
+
+  const resetZoom = () => {
+    store.setState({ zoom: null });
+    setZoomResets(count => count + 1); // Remounts the brush at full width
+  };
+
+  // Where the brush handles sit for the current zoom, so they survive switching parameter
+  const brushStart = zoom && overviewIndices.length > 0 ? Math.min(lowerBound(overviewIndices, zoom.start), overviewIndices.length - 1) : undefined;
+  const brushEnd = zoom && overviewIndices.length > 0 ? Math.max(lowerBound(overviewIndices, zoom.end) - 1, brushStart ?? 0) : undefined;
+
+  const editingRange = rangeDraft && rangeDraft.parameter === selectedEquipmentData?.name ? rangeDraft : null;
+  const draftMin = Number(editingRange?.min);
+  const draftMax = Number(editingRange?.max);
+  const isDraftValid = !!editingRange && editingRange.min !== '' && editingRange.max !== '' &&
+    Number.isFinite(draftMin) && Number.isFinite(draftMax) && draftMin < draftMax;
+
+  const saveRange = () => {
+    if (!editingRange || !isDraftValid) return;
+    onOverrideChange(editingRange.parameter, { min: draftMin, max: draftMax });
+    setRangeDraft(null);
+  };
+
+  // Raised on the latest flagged reading in the time range
+  const createWorkOrder = () => {
+    if (!series || !selectedEquipmentData || rangeEnd === 0) return;
+    let index = rangeEnd - 1;
+    while (index > rangeStart && series.statuses[index] === NORMAL_STATUS) index--;
+    if (series.statuses[index] === NORMAL_STATUS) index = rangeEnd - 1;
+    const { equipments } = store.getState();
+    store.setState({ workOrderDraft: buildWorkOrderDraft(equipments, selectedEquipmentData.id, index) });
+  };
+
+  // Clicking a flagged dataset point opens its explanation
+  const handleChartClick = (index: number | undefined) => {
+    const point = index === undefined ? undefined : chartData[index];
+    if (point && canBrush && (point.warning !== null || point.anomaly !== null)) {
+      store.setState({ explainedRecordIndex: point.index });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {selectedEquipmentData ? selectedEquipmentData.name : 'Parameter Details'}
+        </h2>
+        
+        {/* Time Range Selector, counted back from the newest reading */}
+        <div className="flex items-center space-x-1 text-sm">
+          {TIME_RANGES.map(range => (
+            <button 
+              key={range.value}
+              onClick={() => selectTimeRange(range.value)}
+              disabled={range.value !== 'all' && !series?.hasTimestamps}
+              title={range.value !== 'all' && !series?.hasTimestamps ? 'This data has no timestamps' : undefined}
+              className={`px-2 py-1 rounded-md disabled:opacity-40 disabled:cursor-not-allowed ${timeRange === range.value 
+                ? 'bg-primary-100 text-primary-700 dark:bg-primary-900 dark:text-primary-300' 
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-4">
+        {selectedEquipmentData ? (
+          <div>
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">Current Value</div>
+                <div className={`text-2xl font-bold ${getStatusTextColor(selectedEquipmentData.status)}`}>
+                  {selectedEquipmentData.currentValue.toFixed(2)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">Status</div>
+                <div className="flex items-center">
+                  <div className={`h-3 w-3 rounded-full mr-2 ${getStatusColor(selectedEquipmentData.status)}`}></div>
+                  <span className="font-medium capitalize">
+                    {selectedEquipmentData.status}
+                  </span>
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Normal Range
+                  {overrides?.[selectedEquipmentData.name] && <span className="ml-1 text-xs text-primary-600 dark:text-primary-400">(custom)</span>}
+                </div>
+                {editingRange ? (
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="number"
+                      value={editingRange.min}
+                      onChange={(e) => setRangeDraft({ ...editingRange, min: e.target.value })}
+                      className="w-20 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-0.5 px-1 text-sm"
+                      aria-label="Minimum"
+                    />
+                    <span>-</span>
+                    <input
+                      type="number"
+                      value={editingRange.max}
+                      onChange={(e) => setRangeDraft({ ...editingRange, max: e.target.value })}
+                      className="w-20 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-0.5 px-1 text-sm"
+                      aria-label="Maximum"
+                    />
+                    <button
+                      type="button"
+                      onClick={saveRange}
+                      disabled={!isDraftValid}
+                      className="text-sm font-medium text-primary-600 dark:text-primary-400 disabled:text-gray-400"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRangeDraft(null)}
+                      className="text-sm text-gray-500 dark:text-gray-400"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">
+                      {selectedEquipmentData.normalRange.min.toFixed(1)} - {selectedEquipmentData.normalRange.max.toFixed(1)}
+                    </span>
+                    {overrides && (
+                      <button
+                        type="button"
+                        onClick={() => setRangeDraft({
+                          parameter: selectedEquipmentData.name,
+                          min: String(Number(selectedEquipmentData.normalRange.min.toFixed(2))),
+                          max: String(Number(selectedEquipmentData.normalRange.max.toFixed(2))),
+                        })}
+                        className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+                      >
+                        Edit
+                      </button>
+                    )}
+                    {overrides?.[selectedEquipmentData.name] && (
+                      <button
+                        type="button"
+                        onClick={() => onOverrideChange(selectedEquipmentData.name, null)}
+                        className="text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-gray-700"
+                      >
+                        Use learned
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+            
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={chartData}
+                  margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+                  syncId={PARAMETER_SYNC_ID}
+                  syncMethod={syncNearestX}
+                  onClick={(chartState) => handleChartClick(chartState?.activeTooltipIndex)}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatX} />
+                  <YAxis domain={['auto', 'auto']} />
+                  <Tooltip labelFormatter={(x) => formatX(Number(x))} />
+                  <Legend />
+                  <Line 
+                    type="stepAfter" 
+                    dataKey="min" 
+                    stroke="#9CA3AF" 
+                    strokeDasharray="3 3" 
+                    dot={false}
+                    name="Min Normal"
+                    isAnimationActive={false}
+                  />
+                  <Line 
+                    type="stepAfter" 
+                    dataKey="max" 
+                    stroke="#9CA3AF" 
+                    strokeDasharray="3 3" 
+                    dot={false}
+                    name="Max Normal"
+                    isAnimationActive={false}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="value" 
+                    stroke="#6366F1" 
+                    strokeWidth={2} 
+                    dot={false}
+                    name="Actual Value"
+                    isAnimationActive={false}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="warning" 
+                    stroke="#F59E0B" 
+                    strokeWidth={0} 
+                    dot={{ r: 4 }}
+                    activeDot={{ r: 6 }}
+                    name="Warning"
+                    legendType="circle"
+                    isAnimationActive={false}
+                  />
+                  <Line 
+                    type="monotone" 
+                    dataKey="anomaly" 
+                    stroke="#EF4444" 
+                    strokeWidth={2} 
+                    dot={{ r: 6 }}
+                    activeDot={{ r: 8 }}
+                    name="Anomaly"
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            
+            {/* Brush over the whole range to zoom the chart above */}
+            {canBrush && overviewIndices.length > 2 && (
+              <div className="h-16 mt-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart
+                    data={overviewData}
+                    margin={{ top: 0, right: 30, left: 70, bottom: 0 }}
+                  >
+                    <Line type="monotone" dataKey="value" stroke="#A5B4FC" dot={false} isAnimationActive={false} />
+                    <Brush
+                      key={view}
+                      dataKey="x"
+                      height={24}
+                      stroke="#6366F1"
+                      startIndex={brushStart}
+                      endIndex={brushEnd}
+                      tickFormatter={formatX}
+                      onChange={handleBrushChange}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <div className="mt-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                {chartData.length.toLocaleString()} of {(activeZoom ? activeZoom.end - activeZoom.start : rangeEnd - rangeStart).toLocaleString()} points shown
+              </span>
+              {activeZoom && (
+                <button type="button" onClick={resetZoom} className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500">
+                  Reset zoom
+                </button>
+              )}
+            </div>
+            
+            {/* Recommendations or insights */}
+            {selectedEquipmentData.status !== 'normal' && (
+              <div className="mt-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm">
+                <div className="flex items-start">
+                  <svg className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mr-2 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                  </svg>
+                  <div>
+                    <p className="font-medium text-yellow-800 dark:text-yellow-300">Potential Issue Detected</p>
+                    <p className="mt-1 text-yellow-700 dark:text-yellow-400">
+                      {selectedEquipmentData.name} is {selectedEquipmentData.status === 'warning' ? 'approaching' : 'exceeding'} normal operating limits. Consider {selectedEquipmentData.status === 'warning' ? 'monitoring closely' : 'immediate inspection'}.
+                    </p>
+                    <button
+                      type="button"
+                      onClick={createWorkOrder}
+                      className="mt-2 font-medium text-yellow-800 dark:text-yellow-300 underline hover:no-underline"
+                    >
+                      Create work order
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-16">
+            Select a parameter to view detailed information
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParameterDetail;
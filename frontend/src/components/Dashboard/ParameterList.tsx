@@ -0,0 +1,98 @@
+import { memo, useDeferredValue, useMemo } from 'react';
+import { LineChart, Line, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { shallowArrayEqual, useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getStatusColor, getStatusStroke, getStatusTextColor } from './status';
+import { PARAMETER_SYNC_ID, syncNearestX } from './chartSync';
+import { lttb } from '../../utils/downsample';
+import { getChartWindow } from '../../utils/series';
+
+// Points in each sparkline
+const SPARKLINE_POINTS = 100;
+
+// A single parameter row; only re-renders when its own equipment or selection changes
+const ParameterRow = memo(({ equipmentId }: { equipmentId: string }) => {
+  const store = useDashboardStoreApi();
+  const equipment = useDashboardStore(state => state.equipments.find(eq => eq.id === equipmentId));
+  const isSelected = useDashboardStore(state => state.selectedEquipmentId === equipmentId);
+  const timeRange = useDeferredValue(useDashboardStore(state => state.timeRange));
+  const zoom = useDeferredValue(useDashboardStore(state => state.zoom));
+
+  // Dataset sparklines cover the same records as the detail chart, on its time axis
+  const series = equipment?.series;
+  const seriesData = useMemo(() => {
+    if (!series) return null;
+    const { start, end } = getChartWindow(series, timeRange, zoom);
+    return lttb(series.times, series.values, SPARKLINE_POINTS, start, end)
+      .map(index => ({ x: series.times[index], y: series.values[index] }));
+  }, [series, timeRange, zoom]);
+
+  if (!equipment) return null;
+
+  const sparklineData = seriesData ?? equipment.data.map((d, i) => ({ x: i, y: d.value }));
+
+  return (
+    <div
+      onClick={() => store.setState({ selectedEquipmentId: equipment.id })}
+      className={`p-4 transition-colors duration-150 cursor-pointer
+        ${isSelected
+          ? 'bg-gray-100 dark:bg-gray-700'
+          : 'hover:bg-gray-50 dark:hover:bg-gray-750'
+        }`}
+    >
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <div className={`h-3 w-3 rounded-full mr-3 ${getStatusColor(equipment.status)}`}></div>
+          <span className="font-medium text-gray-900 dark:text-white">{equipment.name}</span>
+        </div>
+        <span className={`text-lg font-semibold ${getStatusTextColor(equipment.status)}`}>
+          {equipment.currentValue.toFixed(1)}
+        </span>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Normal range: {equipment.normalRange.min.toFixed(1)} - {equipment.normalRange.max.toFixed(1)}
+      </div>
+
+      {/* Mini Sparkline */}
+      <div className="h-8 mt-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={sparklineData}
+            syncId={seriesData ? PARAMETER_SYNC_ID : undefined}
+            syncMethod={syncNearestX}
+          >
+            <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} hide />
+            {seriesData && <Tooltip content={() => null} cursor={{ stroke: '#6366F1', strokeWidth: 1 }} />}
+            <Line
+              type="monotone"
+              dataKey="y"
+              stroke={getStatusStroke(equipment.status)}
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+});
+
+const ParameterList = () => {
+  const equipmentIds = useDashboardStore(state => state.equipments.map(eq => eq.id), shallowArrayEqual);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Monitored Parameters</h2>
+      </div>
+      <div className="p-2">
+        {equipmentIds.map((id) => (
+          <ParameterRow key={id} equipmentId={id} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ParameterList;
@@ -0,0 +1,268 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { shallowArrayEqual, useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { PARAMETER_SYNC_ID, syncNearestX } from './chartSync';
+import type { ParameterSeries } from '../../types/dashboard';
+import { getChartWindow, HOUR_MS, selectChartIndices, SERIES_STATUSES } from '../../utils/series';
+
+type Normalization = 'none' | 'minmax' | 'zscore';
+
+const NORMALIZATION_LABELS: Record<Normalization, string> = {
+  none: 'Actual values',
+  minmax: 'Min-max (0-1)',
+  zscore: 'Z-score',
+};
+
+// Points drawn per parameter, and the most anomaly bands drawn across the window
+const OVERLAY_POINTS = 800;
+const MAX_BANDS = 150;
+
+const LINE_COLORS = ['#6366F1', '#10B981', '#F59E0B', '#EC4899', '#0EA5E9', '#8B5CF6', '#14B8A6', '#F97316'];
+
+// Scale of one parameter over its whole series, so zooming doesn't rescale the lines
+const getScale = (values: Float64Array, normalization: Normalization) => {
+  if (normalization === 'none') return { offset: 0, factor: 1 };
+
+  let count = 0;
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    if (!Number.isFinite(value)) return;
+    count++;
+    sum += value;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  if (count === 0) return { offset: 0, factor: 1 };
+  if (normalization === 'minmax') return { offset: min, factor: max > min ? 1 / (max - min) : 1 };
+
+  const valuesMean = sum / count;
+  let squares = 0;
+  values.forEach(value => {
+    if (Number.isFinite(value)) squares += (value - valuesMean) ** 2;
+  });
+  const std = Math.sqrt(squares / count);
+  return { offset: valuesMean, factor: std > 0 ? 1 / std : 1 };
+};
+
+// Runs of anomalous records in [start, end) as time spans. Long windows are split into
+// MAX_BANDS slices and neighbouring slices with an anomaly merge into one band.
+const getAnomalyBands = (series: ParameterSeries, start: number, end: number) => {
+  const anomalyCode = SERIES_STATUSES.indexOf('anomaly');
+  const sliceSize = Math.max(1, Math.ceil((end - start) / MAX_BANDS));
+  const minWidth = (series.times[end - 1] - series.times[start]) / (MAX_BANDS * 2);
+  const bands: { x1: number; x2: number }[] = [];
+  let previousSlice = -2;
+
+  for (let i = start; i < end; i++) {
+    if (series.statuses[i] !== anomalyCode) continue;
+    const slice = Math.floor((i - start) / sliceSize);
+    const x = series.times[i];
+    if (slice - previousSlice <= 1 && bands.length > 0) {
+      bands[bands.length - 1].x2 = Math.max(bands[bands.length - 1].x2, x);
+    } else {
+      bands.push({ x1: x, x2: x });
+    }
+    previousSlice = slice;
+  }
+
+  // Single records would be invisible, so give every band a minimum width
+  return bands.map(({ x1, x2 }) => {
+    const padding = Math.max(0, (minWidth - (x2 - x1)) / 2);
+    return { x1: x1 - padding, x2: x2 + padding };
+  });
+};
+
+// Several dataset parameters on one time axis, following the detail chart's range and zoom
+const ParameterOverlay = () => {
+  const store = useDashboardStoreApi();
+  const ids = useDashboardStore(state => state.equipments.map(eq => eq.id), shallowArrayEqual);
+  const names = useDashboardStore(state => state.equipments.map(eq => eq.name), shallowArrayEqual);
+  const seriesList = useDashboardStore(state => state.equipments.map(eq => eq.series), shallowArrayEqual);
+  const timeRange = useDeferredValue(useDashboardStore(state => state.timeRange));
+  const zoom = useDeferredValue(useDashboardStore(state => state.zoom));
+  const [chosenIds, setChosenIds] = useState<string[] | null>(null);
+  const [normalization, setNormalization] = useState<Normalization>('none');
+  const [dualAxes, setDualAxes] = useState(false);
+
+  // Positions of the overlaid parameters; the first two until the user picks their own
+  const overlaid = useMemo(
+    () => (chosenIds ?? ids.slice(0, 2)).map(id => ids.indexOf(id)).filter(index => index !== -1 && seriesList[index]),
+    [chosenIds, ids, seriesList]
+  );
+  const overlaidIds = overlaid.map(index => ids[index]);
+  const hasRightAxis = dualAxes && normalization === 'none' && overlaid.length > 1;
+
+  const scales = useMemo(
+    () => seriesList.map(series => (series ? getScale(series.values, normalization) : null)),
+    [seriesList, normalization]
+  );
+
+  const referenceSeries = overlaid.length > 0 ? seriesList[overlaid[0]]! : null;
+  const chartWindow = useMemo(
+    () => (referenceSeries ? getChartWindow(referenceSeries, timeRange, zoom) : { start: 0, end: 0 }),
+    [referenceSeries, timeRange, zoom]
+  );
+
+  const chartData = useMemo(() => {
+    const indices = new Set<number>();
+    overlaid.forEach(feature => {
+      selectChartIndices(seriesList[feature]!, chartWindow.start, chartWindow.end, OVERLAY_POINTS)
+        .forEach(index => indices.add(index));
+    });
+
+    return [...indices].sort((a, b) => a - b).map(index => {
+      const row: Record<string, number> = { x: seriesList[overlaid[0]]!.times[index], index };
+      overlaid.forEach(feature => {
+        const value = seriesList[feature]!.values[index];
+        const scale = scales[feature]!;
+        row[`value${feature}`] = (value - scale.offset) * scale.factor;
+        row[`raw${feature}`] = value;
+      });
+      return row;
+    });
+  }, [overlaid, seriesList, scales, chartWindow]);
+
+  const bands = useMemo(
+    () => (referenceSeries && chartWindow.end > chartWindow.start
+      ? getAnomalyBands(referenceSeries, chartWindow.start, chartWindow.end)
+      : []),
+    [referenceSeries, chartWindow]
+  );
+
+  if (seriesList.length === 0 || !seriesList.every(series => !!series)) return null;
+
+  const hasTimestamps = referenceSeries?.hasTimestamps ?? false;
+  const formatX = (x: number) => {
+    if (!hasTimestamps) return String(x + 1);
+    const span = chartData.length > 1 ? chartData[chartData.length - 1].x - chartData[0].x : 0;
+    return span > 2 * 24 * HOUR_MS ? new Date(x).toLocaleDateString() : new Date(x).toLocaleTimeString();
+  };
+
+  const toggleParameter = (id: string) => {
+    setChosenIds(overlaidIds.includes(id) ? overlaidIds.filter(chosen => chosen !== id) : [...overlaidIds, id]);
+  };
+
+  // Clicking next to a flagged record opens its explanation
+  const handleChartClick = (index: number | undefined) => {
+    const row = index === undefined ? undefined : chartData[index];
+    if (row && referenceSeries && SERIES_STATUSES[referenceSeries.statuses[row.index]] !== 'normal') {
+      store.setState({ explainedRecordIndex: row.index });
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-8">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap gap-2 justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Parameter Overlay</h2>
+        <div className="flex items-center space-x-3 text-sm">
+          <select
+            value={normalization}
+            onChange={(e) => setNormalization(e.target.value as Normalization)}
+            className="bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2"
+            aria-label="Normalization"
+          >
+            {Object.entries(NORMALIZATION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label
+            className={`flex items-center space-x-1 ${normalization !== 'none' ? 'opacity-40' : ''}`}
+            title={normalization !== 'none' ? 'Normalized parameters already share a scale' : undefined}
+          >
+            <input
+              type="checkbox"
+              checked={dualAxes}
+              disabled={normalization !== 'none'}
+              onChange={(e) => setDualAxes(e.target.checked)}
+            />
+            <span className="text-gray-700 dark:text-gray-300">Dual axes</span>
+          </label>
+        </div>
+      </div>
+      <div className="p-4">
+        <div className="flex flex-wrap gap-2 mb-4">
+          {ids.map((id, feature) => {
+            const position = overlaid.indexOf(feature);
+            return (
+              <button
+                key={id}
+                type="button"
+                onClick={() => toggleParameter(id)}
+                className={`px-2 py-1 rounded-full text-xs font-medium border ${position !== -1
+                  ? 'border-transparent text-white'
+                  : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                style={position !== -1 ? { backgroundColor: LINE_COLORS[position % LINE_COLORS.length] } : undefined}
+              >
+                {names[feature]}
+                {hasRightAxis && position > 0 && ' (right)'}
+              </button>
+            );
+          })}
+        </div>
+
+        {overlaid.length > 0 ? (
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                data={chartData}
+                margin={{ top: 10, right: hasRightAxis ? 10 : 30, left: 10, bottom: 10 }}
+                syncId={PARAMETER_SYNC_ID}
+                syncMethod={syncNearestX}
+                onClick={(chartState) => handleChartClick(chartState?.activeTooltipIndex)}
+              >
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatX} />
+                <YAxis yAxisId="left" domain={['auto', 'auto']} />
+                {hasRightAxis && <YAxis yAxisId="right" orientation="right" domain={['auto', 'auto']} />}
+                <Tooltip
+                  labelFormatter={(x) => formatX(Number(x))}
+                  // Always show actual values, whatever the lines are scaled to
+                  formatter={(value, name, item) => {
+                    const raw = item.payload?.[String(item.dataKey).replace('value', 'raw')];
+                    return [Number(raw ?? value).toFixed(2), name];
+                  }}
+                />
+                <Legend />
+                {bands.map(band => (
+                  <ReferenceArea
+                    key={band.x1}
+                    yAxisId="left"
+                    x1={band.x1}
+                    x2={band.x2}
+                    fill="#EF4444"
+                    fillOpacity={0.15}
+                    ifOverflow="hidden"
+                  />
+                ))}
+                {overlaid.map((feature, position) => (
+                  <Line
+                    key={ids[feature]}
+                    yAxisId={hasRightAxis && position > 0 ? 'right' : 'left'}
+                    type="monotone"
+                    dataKey={`value${feature}`}
+                    name={names[feature]}
+                    stroke={LINE_COLORS[position % LINE_COLORS.length]}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-center text-gray-500 dark:text-gray-400 py-16">
+            Select parameters to overlay
+          </div>
+        )}
+        <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Red bands mark anomalous records. Follows the time range and zoom of the detail chart above.
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ParameterOverlay;
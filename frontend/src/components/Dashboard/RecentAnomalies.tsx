@@ -0,0 +1,121 @@
+import { useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getFailureModeInfo } from '../../utils/failureModes';
+import { findLatestAnomalies, getSeriesPoint } from '../../utils/series';
+import { buildWorkOrderDraft } from '../../utils/workOrders';
+
+const MAX_ANOMALIES = 5;
+
+// Datasets without timestamps label points "Point N", which Date can't parse
+const formatAnomalyTime = (timestamp: string) => {
+  const time = Date.parse(timestamp);
+  return Number.isFinite(time) ? new Date(time).toLocaleTimeString() : timestamp;
+};
+
+// Dataset records are in time order; live readings only have their timestamp
+const getAnomalyOrder = (anomaly: { timestamp: string; recordIndex?: number }) =>
+  anomaly.recordIndex ?? (Date.parse(anomaly.timestamp) || 0);
+
+const RecentAnomalies = () => {
+  const store = useDashboardStoreApi();
+  const equipments = useDashboardStore(state => state.equipments);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent Anomalies</h2>
+      </div>
+      <div className="p-4">
+        {(() => {
+          // Find all anomalies across equipment; datasets look through the full series.
+          // Position is the dataset record, or the index into a live parameter's readings
+          const anomalies = equipments
+            .flatMap(eq => {
+              const positions = eq.series
+                ? findLatestAnomalies(eq.series, MAX_ANOMALIES)
+                : eq.data.flatMap((point, position) => (point.isAnomaly ? [position] : []));
+              return positions.map(position => {
+                const point = eq.series ? getSeriesPoint(eq.series, position) : eq.data[position];
+                return {
+                  equipmentId: eq.id,
+                  equipmentName: eq.name,
+                  timestamp: point.timestamp,
+                  value: point.value,
+                  normalRange: point.normalRange,
+                  failureModes: point.failureModes || [],
+                  recordIndex: point.recordIndex,
+                  position
+                };
+              });
+            })
+            .sort((a, b) => getAnomalyOrder(b) - getAnomalyOrder(a))
+            .slice(0, MAX_ANOMALIES);
+          
+          if (anomalies.length === 0) {
+            return (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                No anomalies detected yet
+              </div>
+            );
+          }
+          
+          return (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {anomalies.map((anomaly, index) => (
+                <li key={index} className="py-3">
+                  {/* Dataset records open an explanation; live readings have none */}
+                  <button
+                    type="button"
+                    disabled={anomaly.recordIndex === undefined}
+                    onClick={() => store.setState({ explainedRecordIndex: anomaly.recordIndex ?? null })}
+                    className="w-full text-left rounded-md enabled:hover:bg-gray-50 dark:enabled:hover:bg-gray-700 disabled:cursor-default"
+                    title={anomaly.recordIndex === undefined ? undefined : 'Explain this anomaly'}
+                  >
+                    <div className="flex justify-between">
+                      <div className="font-medium">{anomaly.equipmentName}</div>
+                      <div className="text-red-600 dark:text-red-400 font-medium">
+                        {anomaly.value.toFixed(2)}
+                      </div>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <div className="text-gray-500 dark:text-gray-400">
+                        Normal: {anomaly.normalRange.min.toFixed(1)} - {anomaly.normalRange.max.toFixed(1)}
+                      </div>
+                      <div className="text-gray-500 dark:text-gray-400">
+                        {formatAnomalyTime(anomaly.timestamp)}
+                      </div>
+                    </div>
+                    {anomaly.failureModes.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {anomaly.failureModes.map(mode => (
+                          <span
+                            key={mode}
+                            title={getFailureModeInfo(mode).label}
+                            className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                            style={{ backgroundColor: getFailureModeInfo(mode).color }}
+                          >
+                            {mode}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => store.setState({
+                      workOrderDraft: buildWorkOrderDraft(store.getState().equipments, anomaly.equipmentId, anomaly.position)
+                    })}
+                    className="mt-1 text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+                  >
+                    Create work order
+                  </button>
+                </li>
+              ))}
+            </ul>
+          );
+        })()}
+      </div>
+    </div>
+  );
+};
+
+export default RecentAnomalies;
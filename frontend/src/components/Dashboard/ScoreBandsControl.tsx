@@ -0,0 +1,67 @@
+import type { ScoreBands } from '../../utils/predictions';
+
+interface ScoreBandsControlProps {
+  bands: ScoreBands;
+  onChange: (bands: ScoreBands) => void;
+  onReset: () => void;
+  hasScores: boolean; // False when the backend only returned Failure / No Failure labels
+}
+
+const ScoreBandsControl = ({ bands, onChange, onReset, hasScores }: ScoreBandsControlProps) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-8">
+    <div className="flex justify-between items-center mb-3">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Score Thresholds</h2>
+      <button
+        type="button"
+        onClick={onReset}
+        disabled={!hasScores}
+        className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        Reset to analysis settings
+      </button>
+    </div>
+    {hasScores ? (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <label className="block text-sm text-gray-600 dark:text-gray-400">
+          <span className="flex justify-between">
+            <span>Warning from</span>
+            <span className="font-medium text-yellow-500 dark:text-yellow-400">{bands.warning.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={bands.warning}
+            onChange={(e) => onChange({ ...bands, warning: Math.min(Number(e.target.value), bands.anomaly) })}
+            className="w-full accent-yellow-500"
+          />
+        </label>
+        <label className="block text-sm text-gray-600 dark:text-gray-400">
+          <span className="flex justify-between">
+            <span>Anomaly from</span>
+            <span className="font-medium text-red-600 dark:text-red-400">{bands.anomaly.toFixed(2)}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={bands.anomaly}
+            onChange={(e) => {
+              const anomaly = Number(e.target.value);
+              onChange({ warning: Math.min(bands.warning, anomaly), anomaly });
+            }}
+            className="w-full accent-red-500"
+          />
+        </label>
+      </div>
+    ) : (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        This dataset has no failure probabilities, so records can only be normal or anomalous.
+      </p>
+    )}
+  </div>
+);
+
+export default ScoreBandsControl;
@@ -0,0 +1,101 @@
+import { motion } from 'framer-motion';
+import { useDashboardStore } from './dashboardStore';
+
+// Animation variants
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: {
+      staggerChildren: 0.1
+    }
+  }
+};
+
+const itemVariants = {
+  hidden: { y: 20, opacity: 0 },
+  visible: {
+    y: 0,
+    opacity: 1,
+    transition: {
+      duration: 0.5,
+      ease: "easeOut"
+    }
+  }
+};
+
+const StatsCards = () => {
+  const runInfo = useDashboardStore(state => state.runInfo);
+
+  return (
+    <motion.div 
+      initial="hidden"
+      animate="visible"
+      variants={containerVariants}
+      className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8"
+    >
+      <motion.div variants={itemVariants} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+        <div className="flex items-center">
+          <div className="p-3 rounded-full bg-blue-100 dark:bg-blue-900 mr-4">
+            <svg className="w-6 h-6 text-blue-500 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Total Records</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{runInfo.totalPoints.toLocaleString()}</p>
+          </div>
+        </div>
+      </motion.div>
+      
+      <motion.div variants={itemVariants} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+        <div className="flex items-center">
+          <div className="p-3 rounded-full bg-purple-100 dark:bg-purple-900 mr-4">
+            <svg className="w-6 h-6 text-purple-500 dark:text-purple-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+            </svg>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Processed</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{runInfo.processedPoints.toLocaleString()}</p>
+          </div>
+        </div>
+      </motion.div>
+      
+      <motion.div variants={itemVariants} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+        <div className="flex items-center">
+          <div className="p-3 rounded-full bg-red-100 dark:bg-red-900 mr-4">
+            <svg className="w-6 h-6 text-red-500 dark:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Anomalies Found</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">{runInfo.anomaliesFound.toLocaleString()}</p>
+          </div>
+        </div>
+      </motion.div>
+      
+      <motion.div variants={itemVariants} className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+        <div className="flex items-center">
+          <div className="p-3 rounded-full bg-green-100 dark:bg-green-900 mr-4">
+            <svg className="w-6 h-6 text-green-500 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Anomaly Rate</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {runInfo.processedPoints > 0 
+                ? ((runInfo.anomaliesFound / runInfo.processedPoints) * 100).toFixed(1) + '%'
+                : '0%'
+              }
+            </p>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default StatsCards;
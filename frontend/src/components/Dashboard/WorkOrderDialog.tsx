@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useDashboardStore, useDashboardStoreApi } from './dashboardStore';
+import { getPriorityBadgeClass } from '../Maintenance/status';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import { WORK_ORDER_PRIORITIES } from '../../types/workOrders';
+import type { WorkOrder, WorkOrderPriority } from '../../types/workOrders';
+import { getFailureModeInfo } from '../../utils/failureModes';
+
+const inputClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2';
+
+interface WorkOrderDialogContentProps {
+  draft: WorkOrder;
+  onClose: () => void;
+}
+
+// Keyed by draft, so each draft starts from its pre-filled fields
+const WorkOrderDialogContent = ({ draft, onClose }: WorkOrderDialogContentProps) => {
+  const { connection, currentDataset } = useAppState();
+  const dispatch = useAppDispatch();
+  const [edits, setEdits] = useState<Pick<WorkOrder, 'title' | 'description' | 'priority' | 'assignee'>>({
+    title: draft.title,
+    description: draft.description,
+    priority: draft.priority,
+    assignee: draft.assignee,
+  });
+  const [isCreated, setIsCreated] = useState(false);
+
+  const handleCreate = () => {
+    dispatch({
+      type: 'addWorkOrder',
+      workOrder: {
+        ...draft,
+        ...edits,
+        title: edits.title.trim() || draft.title,
+        assignee: edits.assignee.trim(),
+        source: connection ? connection.device.name : currentDataset?.name ?? '',
+        datasetId: connection ? undefined : currentDataset?.id,
+        deviceId: connection?.device.id,
+      },
+    });
+    setIsCreated(true);
+  };
+
+  return (
+    <>
+      <motion.div
+        key="backdrop"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="fixed inset-0 bg-black/30 z-40"
+      />
+      <motion.div
+        key="dialog"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: 20 }}
+        transition={{ duration: 0.2 }}
+        className="fixed inset-x-4 top-16 bottom-4 md:inset-x-auto md:left-1/2 md:-translate-x-1/2 md:w-[40rem] bg-white dark:bg-gray-800 rounded-lg shadow-xl z-50 overflow-y-auto"
+        role="dialog"
+        aria-label="Create work order"
+      >
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New Work Order</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{draft.equipment} · {draft.timestamp}</p>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {isCreated ? (
+          <div className="p-8 text-center space-y-4">
+            <p className="text-gray-900 dark:text-white">Work order {draft.id} created.</p>
+            <div className="flex justify-center space-x-3">
+              <Link
+                to="/maintenance"
+                className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700"
+              >
+                View work orders
+              </Link>
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Back to dashboard
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 space-y-4 text-sm">
+            <img
+              src={draft.chartSnapshot}
+              alt={`${draft.equipment} readings around the anomaly`}
+              className="w-full rounded border border-gray-200 dark:border-gray-700"
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              {draft.failureProbability !== undefined && (
+                <span className="text-gray-600 dark:text-gray-400">
+                  Failure probability {(draft.failureProbability * 100).toFixed(1)}%
+                </span>
+              )}
+              {draft.failureModes.map(mode => (
+                <span
+                  key={mode}
+                  className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                  style={{ backgroundColor: getFailureModeInfo(mode).color }}
+                >
+                  {getFailureModeInfo(mode).label}
+                </span>
+              ))}
+            </div>
+
+            <table className="w-full">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 font-medium">Parameter</th>
+                  <th className="py-1 font-medium text-right">Value</th>
+                  <th className="py-1 font-medium text-right">Normal range</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {draft.readings.map(reading => (
+                  <tr key={reading.parameter}>
+                    <td className="py-1 text-gray-900 dark:text-white">{reading.parameter}</td>
+                    <td className={`py-1 text-right font-medium ${reading.isOutside ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                      {reading.value.toFixed(2)}
+                    </td>
+                    <td className="py-1 text-right text-gray-500 dark:text-gray-400">
+                      {reading.normalRange.min.toFixed(2)} – {reading.normalRange.max.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">Title</span>
+              <input
+                type="text"
+                value={edits.title}
+                onChange={(e) => setEdits({ ...edits, title: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              <label className="block">
+                <span className="text-gray-700 dark:text-gray-300">Priority</span>
+                <select
+                  value={edits.priority}
+                  onChange={(e) => setEdits({ ...edits, priority: e.target.value as WorkOrderPriority })}
+                  className={`${inputClass} capitalize`}
+                >
+                  {WORK_ORDER_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-gray-700 dark:text-gray-300">Assignee</span>
+                <input
+                  type="text"
+                  value={edits.assignee}
+                  onChange={(e) => setEdits({ ...edits, assignee: e.target.value })}
+                  placeholder="Unassigned"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">Description</span>
+              <textarea
+                value={edits.description}
+                onChange={(e) => setEdits({ ...edits, description: e.target.value })}
+                rows={5}
+                className={inputClass}
+              />
+            </label>
+
+            <div className="flex justify-between items-center">
+              <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getPriorityBadgeClass(edits.priority)}`}>
+                {edits.priority} priority
+              </span>
+              <button
+                type="button"
+                onClick={handleCreate}
+                className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 dark:focus:ring-offset-gray-900"
+              >
+                Create work order
+              </button>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </>
+  );
+};
+
+// Review and create the work order drafted from an anomaly
+const WorkOrderDialog = () => {
+  const store = useDashboardStoreApi();
+  const draft = useDashboardStore(state => state.workOrderDraft);
+
+  const close = () => store.setState({ workOrderDraft: null });
+
+  useEffect(() => {
+    if (!draft) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') store.setState({ workOrderDraft: null });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draft, store]);
+
+  return (
+    <AnimatePresence>
+      {draft && <WorkOrderDialogContent key={draft.id} draft={draft} onClose={close} />}
+    </AnimatePresence>
+  );
+};
+
+export default WorkOrderDialog;
@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+import type { DashboardStore } from './dashboardStore';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import type { Alert } from '../../store/appState';
+import { getAlertState } from '../../types/alerts';
+import type { DataPoint } from '../../types/dashboard';
+import { createAlertEngine, MAX_RULE_WINDOW } from '../../utils/alertRules';
+import type { AlertTrigger } from '../../utils/alertRules';
+import { getSeriesPoint } from '../../utils/series';
+import { deliverToChannel, shouldDeliver } from '../../services/notifications';
+import type { AlertMessage } from '../../types/notifications';
+
+let alertCount = 0;
+
+const toAlert = (trigger: AlertTrigger, datasetId: string | null, deviceId: string | null): Alert => {
+  const { rule, parameter, point } = trigger;
+  const where = point.recordIndex !== undefined
+    ? `record ${(point.recordIndex + 1).toLocaleString()}`
+    : new Date(point.timestamp).toLocaleTimeString();
+
+  return {
+    id: `alert-${Date.now()}-${++alertCount}`,
+    severity: rule.severity,
+    title: parameter ? `${rule.name}: ${parameter}` : rule.name,
+    message: `${trigger.message}, at ${where}`,
+    createdAt: new Date().toISOString(),
+    read: false,
+    state: 'open',
+    notes: [],
+    ruleId: rule.id,
+    parameter: parameter ?? undefined,
+    recordIndex: point.recordIndex,
+    datasetId: datasetId ?? undefined,
+    deviceId: deviceId ?? undefined,
+  };
+};
+
+const toAlertMessage = (alert: Alert, source: string): AlertMessage => ({
+  id: alert.id,
+  title: alert.title,
+  message: alert.message,
+  severity: alert.severity,
+  parameter: alert.parameter ?? '',
+  createdAt: alert.createdAt,
+  source,
+});
+
+// Runs the alert rules over readings as they reach the dashboard: every live reading, or
+// each dataset record as playback gets to it. Records already shown when a dataset opens
+// aren't replayed; restarting playback runs the rules over them. New alerts also go out
+// to the notification channels.
+export const useAlertMonitor = (
+  store: DashboardStore,
+  datasetId: string | null,
+  deviceId: string | null,
+  sourceName: string
+) => {
+  const { alerts, alertRules, browserNotifications, notificationChannels } = useAppState();
+  const dispatch = useAppDispatch();
+  // Read by the store subscription, which would otherwise restart on every new alert
+  const latest = useRef({ alerts, alertRules, browserNotifications, notificationChannels, sourceName });
+  useEffect(() => {
+    latest.current = { alerts, alertRules, browserNotifications, notificationChannels, sourceName };
+  }, [alerts, alertRules, browserNotifications, notificationChannels, sourceName]);
+
+  useEffect(() => {
+    if (!datasetId && !deviceId) return;
+    const engine = createAlertEngine();
+    const lastLivePoints = new Map<string, DataPoint>();
+    // Records of each dataset parameter the rules have already seen
+    const positions = new Map<string, { length: number; end: number }>();
+
+    const raise = (trigger: AlertTrigger) => {
+      // A snoozed alert holds back new ones from the same rule and parameter
+      const isSnoozed = latest.current.alerts.some(alert =>
+        alert.ruleId === trigger.rule.id &&
+        alert.parameter === (trigger.parameter ?? undefined) &&
+        getAlertState(alert) === 'snoozed'
+      );
+      if (isSnoozed) return;
+
+      const alert = toAlert(trigger, datasetId, deviceId);
+      dispatch({ type: 'addAlert', alert });
+      if (latest.current.browserNotifications && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification(alert.title, { body: alert.message, tag: alert.id });
+      }
+      const message = toAlertMessage(alert, latest.current.sourceName);
+      latest.current.notificationChannels
+        .filter(channel => shouldDeliver(channel, alert.severity))
+        .forEach(channel => {
+          deliverToChannel(channel, message).then(log => dispatch({ type: 'addDeliveryLog', log }));
+        });
+    };
+
+    const check = () => {
+      const { equipments, runInfo } = store.getState();
+      const rules = latest.current.alertRules;
+
+      equipments.forEach(eq => {
+        let points: DataPoint[];
+        if (eq.series) {
+          const series = eq.series;
+          const length = series.values.length;
+          const end = Math.min(Math.floor(runInfo.processedPoints), length);
+          const previous = positions.get(eq.name);
+          positions.set(eq.name, { length, end });
+          if (!previous || previous.length !== length) return;
+          if (end < previous.end) {
+            // Playback restarted
+            engine.reset();
+            return;
+          }
+          const start = Math.max(previous.end, end - MAX_RULE_WINDOW);
+          points = Array.from({ length: end - start }, (_, i) => getSeriesPoint(series, start + i));
+        } else {
+          const point = eq.data[eq.data.length - 1];
+          if (!point || lastLivePoints.get(eq.name) === point) return;
+          lastLivePoints.set(eq.name, point);
+          points = [point];
+        }
+        if (points.length > 0) engine.evaluate(rules, eq.name, points).forEach(raise);
+      });
+    };
+
+    check();
+    return store.subscribe(check);
+  }, [store, dispatch, datasetId, deviceId]);
+};
@@ -0,0 +1,18 @@
+// Parameter charts sharing this id show the hovered moment together
+export const PARAMETER_SYNC_ID = 'parameters';
+
+// recharts syncMethod for charts on a numeric time axis. Each chart downsamples its own
+// points, so hover the one nearest in time rather than the same index or exact value.
+export const syncNearestX = (ticks: { value: unknown }[], data: { activeLabel?: unknown }) => {
+  const x = Number(data.activeLabel);
+  if (ticks.length === 0 || !Number.isFinite(x)) return -1;
+
+  let low = 0;
+  let high = ticks.length - 1;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (Number(ticks[middle].value) < x) low = middle + 1;
+    else high = middle;
+  }
+  return low > 0 && x - Number(ticks[low - 1].value) < Number(ticks[low].value) - x ? low - 1 : low;
+};
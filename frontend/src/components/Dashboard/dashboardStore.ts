@@ -0,0 +1,213 @@
+import { createContext, useContext, useRef, useSyncExternalStore } from 'react';
+import type { TelemetryReading } from '../../services/telemetry';
+import type {
+  AnomalyDistribution,
+  DataPoint,
+  DatasetRunInfo,
+  Equipment,
+  EquipmentStatus,
+  FailureModeSummary,
+  RecordWindow,
+  TimeRange,
+} from '../../types/dashboard';
+import type { WorkOrder } from '../../types/workOrders';
+import { RingBuffer } from '../../utils/ringBuffer';
+
+export interface DashboardState {
+  equipments: Equipment[];
+  selectedEquipmentId: string | null;
+  runInfo: DatasetRunInfo;
+  anomalyDistribution: AnomalyDistribution;
+  failureModes: FailureModeSummary[]; // Only for datasets; live readings carry no failure modes
+  explainedRecordIndex: number | null; // Dataset record open in the explanation drawer
+  timeRange: TimeRange; // Shared by every parameter chart
+  zoom: RecordWindow | null; // Brushed records within the time range, for datasets
+  liveWindow: number; // Samples kept per parameter while streaming
+  workOrderDraft: WorkOrder | null; // Work order being created from an anomaly
+}
+
+type StateUpdate = Partial<DashboardState> | ((state: DashboardState) => Partial<DashboardState>);
+
+export interface DashboardStore {
+  getState: () => DashboardState;
+  setState: (update: StateUpdate) => void;
+  subscribe: (listener: () => void) => () => void;
+  pushReading: (reading: TelemetryReading) => void;
+  setLiveWindow: (size: number) => void;
+  reset: () => void;
+}
+
+export const DEFAULT_LIVE_WINDOW = 50;
+export const LIVE_WINDOW_OPTIONS = [20, 50, 100, 250, 500];
+
+const createInitialState = (liveWindow: number): DashboardState => ({
+  equipments: [],
+  selectedEquipmentId: null,
+  runInfo: {
+    totalPoints: 0,
+    processedPoints: 0,
+    anomaliesFound: 0,
+    isComplete: false,
+  },
+  anomalyDistribution: {
+    normal: 0,
+    warning: 0,
+    anomaly: 0,
+  },
+  failureModes: [],
+  explainedRecordIndex: null,
+  timeRange: 'all',
+  zoom: null,
+  liveWindow,
+  workOrderDraft: null,
+});
+
+// Outside the range is an anomaly, within 10% of either bound is a warning
+export const classifyReading = (value: number, normalRange: { min: number; max: number }): EquipmentStatus => {
+  if (value < normalRange.min || value > normalRange.max) return 'anomaly';
+
+  const margin = (normalRange.max - normalRange.min) * 0.1;
+  return value < normalRange.min + margin || value > normalRange.max - margin ? 'warning' : 'normal';
+};
+
+// Small external store so each dashboard panel can subscribe to just the slice it renders
+export const createDashboardStore = (): DashboardStore => {
+  let state = createInitialState(DEFAULT_LIVE_WINDOW);
+  const listeners = new Set<() => void>();
+  const buffers = new Map<string, RingBuffer<DataPoint>>();
+  const observedRanges = new Map<string, { min: number; max: number }>();
+
+  const setState = (update: StateUpdate) => {
+    const partial = typeof update === 'function' ? update(state) : update;
+    state = { ...state, ...partial };
+    listeners.forEach(listener => listener());
+  };
+
+  const pushReading = (reading: TelemetryReading) => {
+    const previousRange = observedRanges.get(reading.parameter);
+
+    // Prefer the range sent by the gateway, otherwise widen to what has been observed
+    const normalRange = reading.normalRange || (previousRange
+      ? {
+          min: Math.min(previousRange.min, reading.value),
+          max: Math.max(previousRange.max, reading.value),
+        }
+      : { min: reading.value, max: reading.value });
+    observedRanges.set(reading.parameter, normalRange);
+
+    const status = classifyReading(reading.value, normalRange);
+    const isAnomaly = status === 'anomaly';
+
+    let buffer = buffers.get(reading.parameter);
+    if (!buffer) {
+      buffer = new RingBuffer<DataPoint>(state.liveWindow);
+      buffers.set(reading.parameter, buffer);
+    }
+    buffer.push({
+      timestamp: reading.timestamp,
+      value: reading.value,
+      normalRange,
+      isAnomaly,
+    });
+
+    const updated: Equipment = {
+      id: reading.parameter,
+      name: reading.parameter,
+      data: buffer.toArray(),
+      currentValue: reading.value,
+      normalRange,
+      status,
+    };
+
+    setState(prev => ({
+      equipments: prev.equipments.some(eq => eq.id === updated.id)
+        ? prev.equipments.map(eq => (eq.id === updated.id ? updated : eq))
+        : [...prev.equipments, updated],
+      selectedEquipmentId: prev.selectedEquipmentId ?? updated.id,
+      runInfo: {
+        ...prev.runInfo,
+        totalPoints: prev.runInfo.totalPoints + 1,
+        processedPoints: prev.runInfo.processedPoints + 1,
+        anomaliesFound: prev.runInfo.anomaliesFound + (isAnomaly ? 1 : 0),
+        isComplete: true,
+      },
+      anomalyDistribution: {
+        ...prev.anomalyDistribution,
+        [status]: prev.anomalyDistribution[status] + 1,
+      },
+    }));
+  };
+
+  const setLiveWindow = (size: number) => {
+    buffers.forEach(buffer => buffer.resize(size));
+    setState(prev => ({
+      liveWindow: size,
+      equipments: prev.equipments.map(eq => {
+        const buffer = buffers.get(eq.id);
+        return buffer ? { ...eq, data: buffer.toArray() } : eq;
+      }),
+    }));
+  };
+
+  const reset = () => {
+    buffers.clear();
+    observedRanges.clear();
+    setState(createInitialState(state.liveWindow));
+  };
+
+  return {
+    getState: () => state,
+    setState,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    pushReading,
+    setLiveWindow,
+    reset,
+  };
+};
+
+export const DashboardStoreContext = createContext<DashboardStore | null>(null);
+
+export const useDashboardStoreApi = (): DashboardStore => {
+  const store = useContext(DashboardStoreContext);
+  if (!store) {
+    throw new Error('useDashboardStore must be used inside a DashboardStoreContext provider');
+  }
+  return store;
+};
+
+// Subscribe to a slice of a dashboard store; re-renders only when the slice changes
+export const useStoreSelector = <T>(
+  store: DashboardStore,
+  selector: (state: DashboardState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T => {
+  const cache = useRef<{ state: DashboardState; selector: typeof selector; value: T } | null>(null);
+
+  const getSelection = () => {
+    const current = store.getState();
+    if (cache.current && cache.current.state === current && cache.current.selector === selector) {
+      return cache.current.value;
+    }
+
+    const value = selector(current);
+    const stable = cache.current && isEqual(cache.current.value, value) ? cache.current.value : value;
+    cache.current = { state: current, selector, value: stable };
+    return stable;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSelection);
+};
+
+// Same as useStoreSelector, using the store provided by the enclosing Dashboard
+export const useDashboardStore = <T>(
+  selector: (state: DashboardState) => T,
+  isEqual?: (a: T, b: T) => boolean
+): T => useStoreSelector(useDashboardStoreApi(), selector, isEqual);
+
+export const shallowArrayEqual = <T>(a: T[], b: T[]) =>
+  a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
@@ -0,0 +1,58 @@
+import type { AlertSeverity } from '../../types/alerts';
+import type { EquipmentStatus } from '../../types/dashboard';
+import type { DriftLevel } from '../../types/drift';
+
+// Get color based on status
+export const getStatusColor = (status: EquipmentStatus) => {
+  switch (status) {
+    case 'normal':
+      return 'bg-green-500';
+    case 'warning':
+      return 'bg-yellow-500';
+    case 'anomaly':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-500';
+  }
+};
+
+export const getStatusTextColor = (status: EquipmentStatus) => {
+  switch (status) {
+    case 'normal':
+      return 'text-green-500';
+    case 'warning':
+      return 'text-yellow-500';
+    case 'anomaly':
+      return 'text-red-500';
+    default:
+      return 'text-gray-500';
+  }
+};
+
+// Stroke color used by charts for each status
+export const getStatusStroke = (status: EquipmentStatus) =>
+  status === 'normal' ? '#10B981' : status === 'warning' ? '#F59E0B' : '#EF4444';
+
+// Badge colors for alert severities
+export const getSeverityBadgeClass = (severity: AlertSeverity) => {
+  switch (severity) {
+    case 'info':
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300';
+    case 'warning':
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+    case 'critical':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+  }
+};
+
+// Badge colors for how far a dataset has drifted from the baseline
+export const getDriftBadgeClass = (level: DriftLevel) => {
+  switch (level) {
+    case 'none':
+      return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+    case 'moderate':
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+    case 'significant':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+  }
+};
@@ -0,0 +1,106 @@
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import type { DatasetSummary } from '../../types/dataset';
+
+const anomalyRate = (dataset: DatasetSummary) =>
+  dataset.records > 0 ? ((dataset.anomaliesCount ?? 0) / dataset.records) * 100 : 0;
+
+interface DatasetCompareSummaryProps {
+  datasets: [DatasetSummary, DatasetSummary];
+  onClose?: () => void;
+  detailsTo?: string; // Link to the full comparison
+}
+
+// Headline numbers for two runs side by side; the change is second minus first
+const DatasetCompareSummary = ({ datasets, onClose, detailsTo }: DatasetCompareSummaryProps) => {
+  const [first, second] = datasets;
+  const rows = [
+    {
+      label: 'Records',
+      values: datasets.map(dataset => dataset.records.toLocaleString()),
+      delta: second.records - first.records,
+      format: (delta: number) => delta.toLocaleString(),
+      lowerIsBetter: null, // More or fewer records is neither better nor worse
+    },
+    {
+      label: 'Anomalies',
+      values: datasets.map(dataset => (dataset.anomaliesCount ?? 0).toLocaleString()),
+      delta: (second.anomaliesCount ?? 0) - (first.anomaliesCount ?? 0),
+      format: (delta: number) => delta.toLocaleString(),
+      lowerIsBetter: true,
+    },
+    {
+      label: 'Anomaly rate',
+      values: datasets.map(dataset => `${anomalyRate(dataset).toFixed(2)}%`),
+      delta: anomalyRate(second) - anomalyRate(first),
+      format: (delta: number) => `${delta.toFixed(2)} pts`,
+      lowerIsBetter: true,
+    },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden mb-8"
+    >
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">Comparison</h2>
+        <div className="space-x-4">
+          {detailsTo && (
+            <Link to={detailsTo} className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500">
+              Full comparison
+            </Link>
+          )}
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="text-sm font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-6 py-3 text-left font-medium text-gray-500 dark:text-gray-300"></th>
+              {datasets.map(dataset => (
+                <th key={dataset.id} className="px-6 py-3 text-left font-medium text-gray-500 dark:text-gray-300">
+                  {dataset.name}
+                  <span className="block text-xs font-normal">{new Date(dataset.createdAt).toLocaleString()}</span>
+                </th>
+              ))}
+              <th className="px-6 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+            {rows.map(row => {
+              const improved = row.lowerIsBetter ? row.delta < 0 : row.delta > 0;
+              const isNeutral = row.delta === 0 || row.lowerIsBetter === null;
+              return (
+                <tr key={row.label}>
+                  <td className="px-6 py-3 font-medium text-gray-900 dark:text-white">{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={index} className="px-6 py-3 text-gray-700 dark:text-gray-300">{value}</td>
+                  ))}
+                  <td className={`px-6 py-3 font-medium ${
+                    isNeutral ? 'text-gray-500 dark:text-gray-400' : improved ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                  }`}>
+                    {row.delta > 0 ? '+' : ''}{row.format(row.delta)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+};
+
+export default DatasetCompareSummary;
@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { RUN_COLORS } from './runColors';
+import type { Dataset } from '../../types/dataset';
+import { alignFeatureSeries } from '../../utils/datasetComparison';
+import type { FeatureShift } from '../../utils/datasetComparison';
+
+const OVERLAY_POINTS = 600;
+
+// Elapsed time since each run's first record
+const formatElapsed = (ms: number) => {
+  const minutes = ms / 60000;
+  if (minutes < 60) return `${minutes.toFixed(0)}m`;
+  const hours = minutes / 60;
+  return hours < 48 ? `${hours.toFixed(1)}h` : `${(hours / 24).toFixed(1)}d`;
+};
+
+interface FeatureOverlaysProps {
+  datasets: [Dataset, Dataset];
+  shift: FeatureShift;
+}
+
+// Histograms and readings of one feature from both runs, drawn over each other
+const FeatureOverlays = ({ datasets, shift }: FeatureOverlaysProps) => {
+  const overlay = useMemo(
+    () => alignFeatureSeries(datasets, shift.feature, OVERLAY_POINTS),
+    [datasets, shift.feature]
+  );
+  const histogram = shift.histogram.map(bin => ({
+    label: bin.label,
+    range: `${bin.start.toFixed(2)} – ${bin.end.toFixed(2)}`,
+    first: bin.shares[0] * 100,
+    second: bin.shares[1] * 100,
+  }));
+  const formatX = overlay.byTime ? formatElapsed : (value: number) => `#${value}`;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div>
+        <h3 className="font-medium text-gray-900 dark:text-white">Distribution of {shift.feature}</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">Share of each run's records per bin</p>
+        <ResponsiveContainer width="100%" height={280} className="mt-2">
+          <BarChart data={histogram} margin={{ top: 5, right: 10, left: 0, bottom: 5 }} barGap={0}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+            <Tooltip
+              formatter={(value) => `${Number(value).toFixed(1)}%`}
+              labelFormatter={(_, payload) => payload?.[0]?.payload.range ?? ''}
+            />
+            <Legend />
+            <Bar dataKey="first" name={datasets[0].name} fill={RUN_COLORS[0]} fillOpacity={0.7} isAnimationActive={false} />
+            <Bar dataKey="second" name={datasets[1].name} fill={RUN_COLORS[1]} fillOpacity={0.7} isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div>
+        <h3 className="font-medium text-gray-900 dark:text-white">{shift.feature} over the run</h3>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {overlay.byTime ? 'Aligned on time since each run started' : 'Aligned on record number; not every run has timestamps'}
+        </p>
+        <ResponsiveContainer width="100%" height={280} className="mt-2">
+          <LineChart margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="x" type="number" domain={['dataMin', 'dataMax']} tickFormatter={formatX} />
+            <YAxis domain={['auto', 'auto']} tickFormatter={(value) => Number(value).toFixed(1)} />
+            <Tooltip labelFormatter={(value) => formatX(Number(value))} formatter={(value) => Number(value).toFixed(2)} />
+            <Legend />
+            {overlay.lines.map((line, run) => (
+              <Line
+                key={run}
+                data={line}
+                dataKey="value"
+                name={datasets[run].name}
+                stroke={RUN_COLORS[run]}
+                dot={false}
+                strokeWidth={1.5}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureOverlays;
@@ -0,0 +1,51 @@
+import { SHIFT_P_VALUE } from '../../utils/datasetComparison';
+import type { FeatureShift } from '../../utils/datasetComparison';
+
+interface FeatureShiftTableProps {
+  shifts: FeatureShift[];
+  selectedFeature: string | null;
+  onSelect: (feature: string) => void;
+}
+
+const formatPValue = (pValue: number) => (pValue < 0.001 ? '< 0.001' : pValue.toFixed(3));
+
+// Per-feature distribution shift between the runs, most shifted first
+const FeatureShiftTable = ({ shifts, selectedFeature, onSelect }: FeatureShiftTableProps) => (
+  <div className="overflow-x-auto">
+    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+      <thead className="bg-gray-50 dark:bg-gray-700">
+        <tr>
+          <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Feature</th>
+          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-300">Mean (first)</th>
+          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-300">Mean (second)</th>
+          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-300" title="Largest gap between the two cumulative distributions">KS statistic</th>
+          <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-300">p-value</th>
+          <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Distribution</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+        {shifts.map(shift => {
+          const isShifted = shift.ks.pValue < SHIFT_P_VALUE;
+          return (
+            <tr
+              key={shift.feature}
+              onClick={() => onSelect(shift.feature)}
+              className={`cursor-pointer ${shift.feature === selectedFeature ? 'bg-primary-50 dark:bg-primary-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+            >
+              <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">{shift.feature}</td>
+              <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{shift.means[0].toFixed(2)}</td>
+              <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{shift.means[1].toFixed(2)}</td>
+              <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{shift.ks.statistic.toFixed(3)}</td>
+              <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">{formatPValue(shift.ks.pValue)}</td>
+              <td className={`px-4 py-3 font-medium ${isShifted ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                {isShifted ? 'Shifted' : 'Similar'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default FeatureShiftTable;
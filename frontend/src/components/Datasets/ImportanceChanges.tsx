@@ -0,0 +1,55 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { RUN_COLORS } from './runColors';
+import type { Dataset } from '../../types/dataset';
+import type { ImportanceChange } from '../../utils/datasetComparison';
+
+interface ImportanceChangesProps {
+  datasets: [Dataset, Dataset];
+  changes: ImportanceChange[];
+}
+
+// Feature importance in each run, largest change first
+const ImportanceChanges = ({ datasets, changes }: ImportanceChangesProps) => {
+  const data = changes.map(change => ({
+    feature: change.feature,
+    first: change.values[0] * 100,
+    second: change.values[1] * 100,
+    delta: change.delta * 100,
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <ResponsiveContainer width="100%" height={data.length * 44 + 60} className="lg:col-span-2">
+        <BarChart layout="vertical" data={data} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis type="number" tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+          <YAxis dataKey="feature" type="category" width={150} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+          <Legend />
+          <Bar dataKey="first" name={datasets[0].name} fill={RUN_COLORS[0]} barSize={14} isAnimationActive={false} />
+          <Bar dataKey="second" name={datasets[1].name} fill={RUN_COLORS[1]} barSize={14} isAnimationActive={false} />
+        </BarChart>
+      </ResponsiveContainer>
+      <table className="w-full text-sm self-start">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-1 font-medium">Feature</th>
+            <th className="py-1 font-medium text-right">Change</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+          {data.map(item => (
+            <tr key={item.feature}>
+              <td className="py-1 text-gray-900 dark:text-white">{item.feature}</td>
+              <td className="py-1 text-right font-medium text-gray-700 dark:text-gray-300">
+                {item.delta > 0 ? '+' : ''}{item.delta.toFixed(1)} pts
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ImportanceChanges;
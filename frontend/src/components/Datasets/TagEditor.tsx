@@ -0,0 +1,61 @@
+import { useState } from 'react';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Tags already used on other datasets
+}
+
+const TagEditor = ({ tags, onChange, suggestions }: TagEditorProps) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = () => {
+    const tag = draft.trim().toLowerCase();
+    setDraft('');
+    if (tag && !tags.includes(tag)) {
+      onChange([...tags, tag]);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300"
+        >
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="ml-1 text-primary-500 hover:text-primary-700 dark:hover:text-primary-200"
+            aria-label={`Remove tag ${tag}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag();
+          }
+        }}
+        onBlur={addTag}
+        list="dataset-tag-suggestions"
+        placeholder="Add tag"
+        className="w-24 bg-transparent border-b border-dashed border-gray-300 dark:border-gray-600 text-xs py-0.5 focus:outline-none focus:border-primary-500"
+      />
+      <datalist id="dataset-tag-suggestions">
+        {suggestions.filter(tag => !tags.includes(tag)).map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,2 @@
+// Chart colors for the first and second run in a comparison
+export const RUN_COLORS = ['#6366F1', '#F59E0B'] as const;
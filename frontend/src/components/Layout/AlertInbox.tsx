@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import type { Alert } from '../../store/appState';
+import { getAlertState } from '../../types/alerts';
+import type { AlertState } from '../../types/alerts';
+import { getSeverityBadgeClass } from '../Dashboard/status';
+
+type InboxFilter = 'active' | 'snoozed' | 'resolved' | 'all';
+
+const FILTER_LABELS: Record<InboxFilter, string> = {
+  active: 'Active',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+  all: 'All',
+};
+
+const SNOOZE_OPTIONS = [
+  { label: '1 hour', ms: 3600000 },
+  { label: '1 day', ms: 86400000 },
+  { label: '1 week', ms: 604800000 },
+];
+
+const STATE_LABELS: Record<AlertState, string> = {
+  open: 'Open',
+  acknowledged: 'Acknowledged',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+};
+
+const matchesFilter = (state: AlertState, filter: InboxFilter) =>
+  filter === 'all' ||
+  (filter === 'active' && (state === 'open' || state === 'acknowledged')) ||
+  filter === state;
+
+const actionButtonClass = 'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700';
+
+// One alert, expanded to show its notes and the acknowledge / snooze / resolve actions
+const AlertItem = ({ alert, state, isExpanded, onToggle }: {
+  alert: Alert;
+  state: AlertState;
+  isExpanded: boolean;
+  onToggle: () => void;
+}) => {
+  const dispatch = useAppDispatch();
+  const [note, setNote] = useState('');
+
+  const setState = (next: AlertState, snoozedUntil?: string) => {
+    dispatch({ type: 'setAlertState', id: alert.id, state: next, snoozedUntil, note });
+    setNote('');
+  };
+
+  return (
+    <li className={alert.read ? '' : 'bg-primary-50/50 dark:bg-primary-900/10'}>
+      <button
+        type="button"
+        onClick={() => {
+          onToggle();
+          if (!alert.read) dispatch({ type: 'markAlertRead', id: alert.id });
+        }}
+        className="w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700"
+      >
+        <div className="flex items-start justify-between">
+          <span className={`text-sm text-gray-900 dark:text-white ${alert.read ? '' : 'font-semibold'}`}>{alert.title}</span>
+          <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium capitalize ${getSeverityBadgeClass(alert.severity)}`}>
+            {alert.severity}
+          </span>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mt-0.5">{alert.message}</p>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+          <span>{new Date(alert.createdAt).toLocaleString()}</span>
+          <span>
+            {STATE_LABELS[state]}
+            {state === 'snoozed' && alert.snoozedUntil && ` until ${new Date(alert.snoozedUntil).toLocaleString()}`}
+          </span>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-3 space-y-2 text-xs">
+          {alert.notes.length > 0 && (
+            <ul className="space-y-1">
+              {alert.notes.map((item, index) => (
+                <li key={index} className="p-2 rounded bg-gray-50 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                  {item.text}
+                  <span className="block text-gray-400 mt-0.5">{new Date(item.createdAt).toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Add a note..."
+            rows={2}
+            className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md p-2 text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            {state === 'open' && (
+              <button type="button" onClick={() => setState('acknowledged')} className={actionButtonClass}>
+                Acknowledge
+              </button>
+            )}
+            {state !== 'resolved' && (
+              <select
+                value=""
+                onChange={(e) => setState('snoozed', new Date(Date.now() + Number(e.target.value)).toISOString())}
+                aria-label="Snooze"
+                className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+              >
+                <option value="" disabled>Snooze...</option>
+                {SNOOZE_OPTIONS.map(option => <option key={option.ms} value={option.ms}>{option.label}</option>)}
+              </select>
+            )}
+            {state === 'resolved' ? (
+              <button type="button" onClick={() => setState('open')} className={actionButtonClass}>Reopen</button>
+            ) : (
+              <button type="button" onClick={() => setState('resolved')} className={actionButtonClass}>Resolve</button>
+            )}
+            {note.trim() && (
+              <button
+                type="button"
+                onClick={() => {
+                  dispatch({ type: 'addAlertNote', id: alert.id, note });
+                  setNote('');
+                }}
+                className={actionButtonClass}
+              >
+                Add note
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => dispatch({ type: 'dismissAlert', id: alert.id })}
+              className="px-2 py-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+};
+
+// Bell in the navbar with the alerts raised by the alert rules
+const AlertInbox = () => {
+  const { alerts, browserNotifications } = useAppState();
+  const dispatch = useAppDispatch();
+  const [isOpen, setIsOpen] = useState(false);
+  const [filter, setFilter] = useState<InboxFilter>('active');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [isOpen]);
+
+  const now = Date.now();
+  const withStates = alerts.map(alert => ({ alert, state: getAlertState(alert, now) }));
+  const unreadCount = withStates.filter(({ alert, state }) => !alert.read && state !== 'resolved').length;
+  const visible = withStates.filter(({ state }) => matchesFilter(state, filter));
+  const supportsNotifications = typeof window !== 'undefined' && 'Notification' in window;
+
+  const toggleBrowserNotifications = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (enabled && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setPermissionError('Notifications are blocked for this site in the browser settings');
+        return;
+      }
+    }
+    dispatch({ type: 'setBrowserNotifications', enabled });
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-md text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-800"
+        aria-label={`Alerts${unreadCount > 0 ? `, ${unreadCount} unread` : ''}`}
+      >
+        <svg className="h-6 w-6" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.15 }}
+          className="absolute right-0 mt-2 w-96 max-w-[calc(100vw-2rem)] bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-50"
+        >
+          <div className="p-3 border-b border-gray-200 dark:border-gray-700 space-y-2">
+            <div className="flex justify-between items-center">
+              <h2 className="font-semibold text-gray-900 dark:text-white">Alerts</h2>
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => dispatch({ type: 'markAllAlertsRead' })}
+                  className="text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+                >
+                  Mark all read
+                </button>
+              )}
+            </div>
+            <div className="flex space-x-1 text-xs">
+              {Object.entries(FILTER_LABELS).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFilter(value as InboxFilter)}
+                  className={`px-2 py-1 rounded-md ${filter === value
+                    ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+                    : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">No alerts</div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700">
+              {visible.map(({ alert, state }) => (
+                <AlertItem
+                  key={alert.id}
+                  alert={alert}
+                  state={state}
+                  isExpanded={expandedId === alert.id}
+                  onToggle={() => setExpandedId(expandedId === alert.id ? null : alert.id)}
+                />
+              ))}
+            </ul>
+          )}
+
+          {supportsNotifications && (
+            <div className="p-3 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={browserNotifications && Notification.permission === 'granted'}
+                  onChange={(e) => toggleBrowserNotifications(e.target.checked)}
+                  className="mr-2 accent-primary-600"
+                />
+                Show browser notifications for new alerts
+              </label>
+              {permissionError && <p className="mt-1 text-red-600 dark:text-red-400">{permissionError}</p>}
+            </div>
+          )}
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useAppDispatch, useAppState } from '../../store/appState';
+import { CMMS_ADAPTERS } from '../../services/cmms';
+import type { CmmsAdapterKind, WorkOrder } from '../../types/workOrders';
+
+const inputClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2';
+
+interface CmmsExportPanelProps {
+  orders: WorkOrder[]; // The selected work orders, or every one in the list
+  isSelection: boolean;
+}
+
+const CmmsExportPanel = ({ orders, isSelection }: CmmsExportPanelProps) => {
+  const { cmmsConfig } = useAppState();
+  const dispatch = useAppDispatch();
+  const [isExporting, setIsExporting] = useState(false);
+  const [result, setResult] = useState<{ message: string; isError: boolean } | null>(null);
+  const adapter = CMMS_ADAPTERS[cmmsConfig.adapter];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setResult(null);
+    try {
+      const exported = await adapter.exportWorkOrders(orders, cmmsConfig);
+      dispatch({
+        type: 'workOrdersExported',
+        ids: exported.exportedIds,
+        externalIds: exported.externalIds,
+        exportedAt: new Date().toISOString(),
+      });
+      setResult({ message: exported.message, isError: false });
+    } catch (error) {
+      console.error('Could not export work orders:', error);
+      setResult({ message: error instanceof Error ? error.message : 'Could not export work orders', isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6 text-sm">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Export to CMMS</h2>
+      <p className="text-gray-500 dark:text-gray-400">{adapter.description}</p>
+
+      <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="block">
+          <span className="text-gray-700 dark:text-gray-300">Adapter</span>
+          <select
+            value={cmmsConfig.adapter}
+            onChange={(e) => dispatch({ type: 'setCmmsConfig', config: { adapter: e.target.value as CmmsAdapterKind } })}
+            className={inputClass}
+          >
+            {(Object.keys(CMMS_ADAPTERS) as CmmsAdapterKind[]).map(kind => (
+              <option key={kind} value={kind}>{CMMS_ADAPTERS[kind].label}</option>
+            ))}
+          </select>
+        </label>
+        {adapter.needsEndpoint && (
+          <>
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">Endpoint URL</span>
+              <input
+                type="url"
+                value={cmmsConfig.url}
+                onChange={(e) => dispatch({ type: 'setCmmsConfig', config: { url: e.target.value } })}
+                placeholder="https://cmms.example.com/api/work-orders"
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">API key</span>
+              <input
+                type="password"
+                value={cmmsConfig.apiKey}
+                onChange={(e) => dispatch({ type: 'setCmmsConfig', config: { apiKey: e.target.value } })}
+                placeholder="Optional"
+                autoComplete="off"
+                className={inputClass}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-4">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={isExporting || orders.length === 0 || (adapter.needsEndpoint && !cmmsConfig.url.trim())}
+          className="px-4 py-2 rounded-lg font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+        >
+          {isExporting ? 'Exporting...' : `Export ${orders.length} ${isSelection ? 'selected' : 'listed'}`}
+        </button>
+        {result && (
+          <p className={result.isError ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+            {result.message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CmmsExportPanel;
@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { getPriorityBadgeClass, getWorkOrderStatusClass } from './status';
+import { useAppDispatch } from '../../store/appState';
+import { WORK_ORDER_PRIORITIES, WORK_ORDER_STATUS_LABELS, WORK_ORDER_TRANSITIONS } from '../../types/workOrders';
+import type { WorkOrder, WorkOrderPriority } from '../../types/workOrders';
+import { getFailureModeInfo } from '../../utils/failureModes';
+
+const inputClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1.5 px-2';
+
+interface WorkOrderDetailProps {
+  workOrder: WorkOrder;
+  onClose: () => void;
+}
+
+// Keyed by work order, so the assignee and note drafts start fresh for each one
+const WorkOrderDetail = ({ workOrder, onClose }: WorkOrderDetailProps) => {
+  const dispatch = useAppDispatch();
+  const [assignee, setAssignee] = useState(workOrder.assignee);
+  const [note, setNote] = useState('');
+
+  const saveAssignee = () => {
+    if (assignee.trim() === workOrder.assignee) return;
+    dispatch({ type: 'updateWorkOrder', id: workOrder.id, changes: { assignee: assignee.trim() } });
+  };
+
+  const changeStatus = (status: WorkOrder['status']) => {
+    dispatch({ type: 'setWorkOrderStatus', id: workOrder.id, status, note: note.trim() || undefined });
+    setNote('');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete work order ${workOrder.id}? This cannot be undone.`)) return;
+    dispatch({ type: 'deleteWorkOrder', id: workOrder.id });
+    onClose();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex justify-between items-start gap-4">
+        <div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {workOrder.id}
+            {workOrder.externalId && <> · CMMS {workOrder.externalId}</>}
+          </div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{workOrder.title}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {workOrder.equipment} · {workOrder.source || 'Unknown source'} · {workOrder.timestamp}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 rounded-md text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label="Close"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm">
+        <div className="space-y-4">
+          <img
+            src={workOrder.chartSnapshot}
+            alt={`${workOrder.equipment} readings around the anomaly`}
+            className="w-full rounded border border-gray-200 dark:border-gray-700"
+          />
+          {workOrder.failureModes.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {workOrder.failureModes.map(mode => (
+                <span
+                  key={mode}
+                  className="px-1.5 py-0.5 rounded text-xs font-medium text-white"
+                  style={{ backgroundColor: getFailureModeInfo(mode).color }}
+                >
+                  {getFailureModeInfo(mode).label}
+                </span>
+              ))}
+            </div>
+          )}
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Parameter</th>
+                <th className="py-1 font-medium text-right">Value</th>
+                <th className="py-1 font-medium text-right">Normal range</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {workOrder.readings.map(reading => (
+                <tr key={reading.parameter}>
+                  <td className="py-1 text-gray-900 dark:text-white">{reading.parameter}</td>
+                  <td className={`py-1 text-right font-medium ${reading.isOutside ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                    {reading.value.toFixed(2)}
+                  </td>
+                  <td className="py-1 text-right text-gray-500 dark:text-gray-400">
+                    {reading.normalRange.min.toFixed(2)} – {reading.normalRange.max.toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="whitespace-pre-line text-gray-700 dark:text-gray-300">{workOrder.description}</p>
+        </div>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">Priority</span>
+              <select
+                value={workOrder.priority}
+                onChange={(e) => dispatch({ type: 'updateWorkOrder', id: workOrder.id, changes: { priority: e.target.value as WorkOrderPriority } })}
+                className={`${inputClass} capitalize`}
+              >
+                {WORK_ORDER_PRIORITIES.map(priority => <option key={priority} value={priority}>{priority}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-700 dark:text-gray-300">Assignee</span>
+              <input
+                type="text"
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                onBlur={saveAssignee}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveAssignee();
+                }}
+                placeholder="Unassigned"
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {/* Status lifecycle */}
+          <div>
+            <div className="flex items-center justify-between">
+              <h3 className="font-medium text-gray-900 dark:text-white">Status</h3>
+              <span className={`font-medium ${getWorkOrderStatusClass(workOrder.status)}`}>
+                {WORK_ORDER_STATUS_LABELS[workOrder.status]}
+              </span>
+            </div>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the status change (optional)"
+              className={inputClass}
+            />
+            <div className="mt-2 flex flex-wrap gap-2">
+              {WORK_ORDER_TRANSITIONS[workOrder.status].map(status => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => changeStatus(status)}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  {status === 'open' ? 'Reopen' : `Mark ${WORK_ORDER_STATUS_LABELS[status].toLowerCase()}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-medium text-gray-900 dark:text-white">History</h3>
+            <ol className="mt-2 space-y-2">
+              {[...workOrder.history].reverse().map((change, index) => (
+                <li key={`${change.at}-${index}`} className="border-l-2 border-gray-200 dark:border-gray-700 pl-3">
+                  <div className="flex justify-between">
+                    <span className={`font-medium ${getWorkOrderStatusClass(change.status)}`}>
+                      {WORK_ORDER_STATUS_LABELS[change.status]}
+                    </span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(change.at).toLocaleString()}</span>
+                  </div>
+                  {change.note && <p className="text-gray-600 dark:text-gray-400">{change.note}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="flex justify-between items-center pt-4 border-t border-gray-200 dark:border-gray-700">
+            <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getPriorityBadgeClass(workOrder.priority)}`}>
+              {workOrder.priority} priority
+            </span>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {workOrder.exportedAt ? `Exported ${new Date(workOrder.exportedAt).toLocaleString()}` : 'Not exported'}
+            </div>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="font-medium text-red-600 dark:text-red-400 hover:text-red-500"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkOrderDetail;
@@ -0,0 +1,30 @@
+import type { WorkOrderPriority, WorkOrderStatus } from '../../types/workOrders';
+
+// Badge colors for work order priorities
+export const getPriorityBadgeClass = (priority: WorkOrderPriority) => {
+  switch (priority) {
+    case 'low':
+      return 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300';
+    case 'medium':
+      return 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300';
+    case 'high':
+      return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300';
+    case 'urgent':
+      return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+  }
+};
+
+export const getWorkOrderStatusClass = (status: WorkOrderStatus) => {
+  switch (status) {
+    case 'open':
+      return 'text-primary-600 dark:text-primary-400';
+    case 'inProgress':
+      return 'text-yellow-600 dark:text-yellow-400';
+    case 'onHold':
+      return 'text-gray-500 dark:text-gray-400';
+    case 'completed':
+      return 'text-green-600 dark:text-green-400';
+    case 'cancelled':
+      return 'text-red-600 dark:text-red-400';
+  }
+};
@@ -0,0 +1,120 @@
+import { motion } from 'framer-motion';
+import { getUnits, isMappingComplete, MODEL_FEATURES } from '../../utils/columnMapping';
+import type { ColumnMapping, FeatureMapping } from '../../utils/columnMapping';
+import type { ColumnInfo } from '../../utils/datasetParser';
+
+interface ColumnMappingWizardProps {
+  columns: ColumnInfo[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  savedSourceName: string | null; // Set when the mapping was restored from a previous upload
+  onReset: () => void;
+}
+
+const selectClassName = 'w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm';
+
+const ColumnMappingWizard = ({ columns, mapping, onChange, savedSourceName, onReset }: ColumnMappingWizardProps) => {
+  const updateFeature = (featureName: string, update: Partial<FeatureMapping>) => {
+    onChange({
+      ...mapping,
+      features: {
+        ...mapping.features,
+        [featureName]: { ...mapping.features[featureName], ...update },
+      },
+    });
+  };
+
+  const isComplete = isMappingComplete(mapping);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden mb-12"
+    >
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Map Columns</h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {savedSourceName
+              ? `Using the mapping saved for "${savedSourceName}".`
+              : 'Match your columns to the features the model expects. Values are converted to the model units.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onReset}
+          className="mt-4 sm:mt-0 text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+        >
+          Re-detect columns
+        </button>
+      </div>
+
+      <div className="p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {MODEL_FEATURES.map(feature => {
+            const featureMapping = mapping.features[feature.name];
+            const units = getUnits(feature);
+
+            return (
+              <div key={feature.name} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                <h3 className="font-medium text-gray-900 dark:text-white mb-2">{feature.name}</h3>
+                <div className="flex space-x-2">
+                  <select
+                    value={featureMapping?.column ?? ''}
+                    onChange={(e) => updateFeature(feature.name, { column: e.target.value || null })}
+                    className={`${selectClassName} ${featureMapping?.column ? '' : 'border-red-300 dark:border-red-700'}`}
+                  >
+                    <option value="">— Not mapped —</option>
+                    {columns.map(column => (
+                      <option key={column.name} value={column.name}>
+                        {column.name} ({column.type})
+                      </option>
+                    ))}
+                  </select>
+                  {units.length > 1 && (
+                    <select
+                      value={featureMapping?.unit}
+                      onChange={(e) => updateFeature(feature.name, { unit: e.target.value })}
+                      className={`${selectClassName} w-28`}
+                      aria-label={`${feature.name} unit`}
+                    >
+                      {units.map(unit => (
+                        <option key={unit.unit} value={unit.unit}>{unit.unit}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            <h3 className="font-medium text-gray-900 dark:text-white mb-2">Timestamp</h3>
+            <select
+              value={mapping.timestampColumn ?? ''}
+              onChange={(e) => onChange({ ...mapping, timestampColumn: e.target.value || null })}
+              className={selectClassName}
+            >
+              <option value="">— None (use row order) —</option>
+              {columns.map(column => (
+                <option key={column.name} value={column.name}>
+                  {column.name} ({column.type})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {!isComplete && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+            Every feature needs a source column before the analysis can start.
+          </p>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default ColumnMappingWizard;
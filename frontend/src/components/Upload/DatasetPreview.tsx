@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MAX_PREVIEW_ROWS, REQUIRED_COLUMNS } from '../../utils/datasetParser';
+import type { CellValue, ColumnType, ParsedDataset } from '../../utils/datasetParser';
+
+const PREVIEW_ROW_OPTIONS = [5, 10, 25, MAX_PREVIEW_ROWS];
+
+const columnTypeStyles: Record<ColumnType, string> = {
+  number: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  string: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  boolean: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300',
+  date: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  empty: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/40 dark:text-yellow-300',
+};
+
+const formatCell = (value: CellValue) => {
+  if (value === null) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toString() : value.toFixed(3);
+  return String(value);
+};
+
+const DatasetPreview = ({ dataset }: { dataset: ParsedDataset }) => {
+  const [previewRows, setPreviewRows] = useState<number>(10);
+  const errors = dataset.issues.filter(issue => issue.severity === 'error');
+  const warnings = dataset.issues.filter(issue => issue.severity === 'warning');
+  const requiredNames = new Set(REQUIRED_COLUMNS.map(column => column.name));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden mb-12"
+    >
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white">Dataset Preview</h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {dataset.fileName} · {dataset.rowCount.toLocaleString()} rows · {dataset.columns.length} columns
+          </p>
+        </div>
+        <label className="mt-4 sm:mt-0 flex items-center text-sm text-gray-600 dark:text-gray-400">
+          Show first
+          <select
+            value={previewRows}
+            onChange={(e) => setPreviewRows(Number(e.target.value))}
+            className="mx-2 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm"
+          >
+            {PREVIEW_ROW_OPTIONS.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+          rows
+        </label>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {/* Validation results */}
+        {errors.length > 0 && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm font-medium text-red-800 dark:text-red-300">
+              Fix these problems before starting the analysis:
+            </p>
+            <ul className="mt-2 list-disc list-inside text-sm text-red-700 dark:text-red-400 space-y-1">
+              {errors.map((issue, index) => (
+                <li key={index}>
+                  {issue.row !== undefined && <span className="font-medium">Row {issue.row}: </span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300">Warnings</p>
+            <ul className="mt-2 list-disc list-inside text-sm text-yellow-700 dark:text-yellow-400 space-y-1">
+              {warnings.map((issue, index) => (
+                <li key={index}>
+                  {issue.row !== undefined && <span className="font-medium">Row {issue.row}: </span>}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {dataset.columns.length > 0 && (
+          <>
+            {/* Detected column types */}
+            <div>
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Columns</h3>
+              <div className="flex flex-wrap gap-2">
+                {dataset.columns.map(column => (
+                  <span
+                    key={column.name}
+                    className="inline-flex items-center px-2.5 py-1 rounded-md border border-gray-200 dark:border-gray-700 text-sm"
+                  >
+                    <span className="text-gray-900 dark:text-white">{column.name}</span>
+                    {requiredNames.has(column.name) && (
+                      <span className="ml-1 text-primary-600 dark:text-primary-400" title="Required by the model">*</span>
+                    )}
+                    <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${columnTypeStyles[column.type]}`}>
+                      {column.type}
+                    </span>
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* First N rows */}
+            <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-300">#</th>
+                    {dataset.columns.map(column => (
+                      <th key={column.name} className="px-3 py-2 text-left font-medium text-gray-500 dark:text-gray-300 whitespace-nowrap">
+                        {column.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {dataset.rows.slice(0, previewRows).map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      <td className="px-3 py-2 text-gray-400">{rowIndex + 1}</td>
+                      {dataset.columns.map(column => (
+                        <td key={column.name} className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {formatCell(row[column.name] ?? null)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default DatasetPreview;
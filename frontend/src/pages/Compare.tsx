@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import DatasetCompareSummary from '../components/Datasets/DatasetCompareSummary';
+import FeatureShiftTable from '../components/Datasets/FeatureShiftTable';
+import FeatureOverlays from '../components/Datasets/FeatureOverlays';
+import ImportanceChanges from '../components/Datasets/ImportanceChanges';
+import { getDataset, listDatasets } from '../store/persistence';
+import type { Dataset, DatasetSummary } from '../types/dataset';
+import { compareDatasets, SHIFT_P_VALUE } from '../utils/datasetComparison';
+
+const selectClass = 'mt-1 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm';
+
+// Two runs of the same line side by side; the runs are picked in the URL so a comparison can be shared
+const Compare = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const firstId = searchParams.get('first');
+  const secondId = searchParams.get('second');
+  const [summaries, setSummaries] = useState<DatasetSummary[]>([]);
+  const [loaded, setLoaded] = useState<{ ids: string; datasets: [Dataset, Dataset] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFeature, setSelectedFeature] = useState<string | null>(null);
+
+  // Animation variants
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { y: 20, opacity: 0 },
+    visible: {
+      y: 0,
+      opacity: 1,
+      transition: {
+        duration: 0.5,
+        ease: "easeOut"
+      }
+    }
+  };
+
+  useEffect(() => {
+    listDatasets()
+      .then(setSummaries)
+      .catch(error => {
+        console.error('Could not load datasets:', error);
+        setError(error instanceof Error ? error.message : 'Could not load datasets');
+      });
+  }, []);
+
+  const ids = firstId && secondId ? `${firstId}:${secondId}` : null;
+  useEffect(() => {
+    if (!firstId || !secondId) return;
+    let isCancelled = false;
+    Promise.all([getDataset(firstId), getDataset(secondId)])
+      .then(([first, second]) => {
+        if (isCancelled) return;
+        if (!first || !second) throw new Error('One of these datasets is no longer stored in the browser');
+        setLoaded({ ids: `${firstId}:${secondId}`, datasets: [first, second] });
+        setError(null);
+      })
+      .catch(error => {
+        if (isCancelled) return;
+        console.error('Could not load datasets:', error);
+        setError(error instanceof Error ? error.message : 'Could not load datasets');
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [firstId, secondId]);
+
+  const datasets = loaded && loaded.ids === ids ? loaded.datasets : null;
+  const isLoading = !!ids && !datasets && !error;
+  const comparison = useMemo(() => (datasets ? compareDatasets(datasets[0], datasets[1]) : null), [datasets]);
+  const selectedShift = comparison?.features.find(shift => shift.feature === selectedFeature) ?? comparison?.features[0];
+  const shiftedCount = comparison?.features.filter(shift => shift.ks.pValue < SHIFT_P_VALUE).length ?? 0;
+
+  const pickDataset = (key: 'first' | 'second', id: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (id) next.set(key, id);
+    else next.delete(key);
+    setSearchParams(next);
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <motion.div
+        initial="hidden"
+        animate="visible"
+        variants={containerVariants}
+        className="text-center mb-12"
+      >
+        <motion.h1
+          variants={itemVariants}
+          className="text-3xl md:text-4xl font-display font-bold text-gray-900 dark:text-white"
+        >
+          Compare Runs
+        </motion.h1>
+        <motion.p
+          variants={itemVariants}
+          className="mt-4 text-xl text-gray-600 dark:text-gray-300 max-w-3xl mx-auto"
+        >
+          See whether a re-run after a fix improved things
+        </motion.p>
+      </motion.div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+        {(['first', 'second'] as const).map(key => (
+          <label key={key} className="block text-sm">
+            <span className="text-gray-700 dark:text-gray-300">{key === 'first' ? 'Before' : 'After'}</span>
+            <select
+              value={(key === 'first' ? firstId : secondId) ?? ''}
+              onChange={(e) => pickDataset(key, e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Choose a dataset</option>
+              {summaries.map(summary => (
+                <option key={summary.id} value={summary.id}>
+                  {summary.name} ({new Date(summary.createdAt).toLocaleDateString()})
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 text-red-700 rounded-lg">
+          <p className="text-sm font-medium">Error: {error}</p>
+        </div>
+      )}
+
+      {!ids ? (
+        <p className="text-center text-gray-600 dark:text-gray-400">
+          Pick two datasets to compare, or choose them in the <Link to="/datasets" className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500">dataset library</Link>.
+        </p>
+      ) : isLoading ? (
+        <p className="text-center text-gray-500 dark:text-gray-400">Loading datasets...</p>
+      ) : datasets && comparison && (
+        <>
+          <DatasetCompareSummary datasets={datasets} />
+
+          {comparison.features.length === 0 ? (
+            <p className="text-center text-gray-600 dark:text-gray-400">These datasets share no numeric features to compare.</p>
+          ) : (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden mb-8">
+                <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-white">Distribution shifts</h2>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Two-sample Kolmogorov–Smirnov test per feature. {shiftedCount} of {comparison.features.length} shifted at p &lt; {SHIFT_P_VALUE}. Select a feature to overlay it.
+                  </p>
+                </div>
+                <FeatureShiftTable
+                  shifts={comparison.features}
+                  selectedFeature={selectedShift?.feature ?? null}
+                  onSelect={setSelectedFeature}
+                />
+                {selectedShift && (
+                  <div className="p-6 border-t border-gray-200 dark:border-gray-700">
+                    <FeatureOverlays datasets={datasets} shift={selectedShift} />
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">Feature importance</h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  How strongly each feature separates anomalies from normal records in each run
+                </p>
+                <ImportanceChanges datasets={datasets} changes={comparison.importance} />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Compare;
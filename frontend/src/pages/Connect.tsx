@@ -1,25 +1,23 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { connectToDevice as openDeviceConnection, discoverDevices } from '../services/telemetry';
+import type { Device } from '../services/telemetry';
+import { useAppDispatch, useAppState } from '../store/appState';
 
-interface ConnectProps {
-  setIsConnected: (isConnected: boolean) => void;
-  isConnected: boolean;
-}
-
-interface Device {
-  id: string;
-  name: string;
-  type: string;
-  status: 'available' | 'connected' | 'error';
-}
-
-const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
+const Connect = () => {
   const navigate = useNavigate();
+  const { connection } = useAppState();
+  const dispatch = useAppDispatch();
+  const isConnected = connection !== null;
   const [availableDevices, setAvailableDevices] = useState<Device[]>([]);
   const [isScanning, setIsScanning] = useState<boolean>(false);
-  const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
-  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'failed'>('idle');
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [selectedDevice, setSelectedDevice] = useState<Device | null>(connection?.device || null);
+  const [connectionStatus, setConnectionStatus] = useState<'idle' | 'connecting' | 'connected' | 'failed'>(
+    isConnected ? 'connected' : 'idle'
+  );
+  const [connectionError, setConnectionError] = useState<string | null>(null);
   
   // Animation variants
   const containerVariants = {
@@ -44,33 +42,27 @@ const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
     }
   };
 
-  // Simulated device scanning
-  const scanForDevices = () => {
+  // Discover devices from the configured gateway
+  const scanForDevices = async () => {
     setIsScanning(true);
+    setScanError(null);
     setAvailableDevices([]);
     
-    // Simulate device discovery over time
-    const sampleDevices: Device[] = [
-      { id: 'temp-sens-01', name: 'Temperature Sensor', type: 'sensor', status: 'available' },
-      { id: 'press-valve-02', name: 'Pressure Valve', type: 'actuator', status: 'available' },
-      { id: 'flow-meter-03', name: 'Flow Meter', type: 'sensor', status: 'available' },
-      { id: 'motor-speed-04', name: 'Motor Speed Controller', type: 'controller', status: 'available' },
-      { id: 'industrial-hub-05', name: 'Industrial IoT Hub', type: 'gateway', status: 'available' },
-    ];
-    
-    // Simulate discovering devices one by one
-    const intervals = [800, 1200, 1500, 2200, 2800];
-    
-    intervals.forEach((delay, index) => {
-      setTimeout(() => {
-        setAvailableDevices(prev => [...prev, sampleDevices[index]]);
-        
-        // Stop scanning after all devices are found
-        if (index === intervals.length - 1) {
-          setIsScanning(false);
-        }
-      }, delay);
-    });
+    try {
+      const devices = await discoverDevices();
+      
+      // Keep the active device marked as connected across rescans
+      setAvailableDevices(
+        devices.map(device =>
+          device.id === connection?.device.id ? { ...device, status: 'connected' } : device
+        )
+      );
+    } catch (error) {
+      console.error('Device discovery failed:', error);
+      setScanError(error instanceof Error ? error.message : 'Device discovery failed');
+    } finally {
+      setIsScanning(false);
+    }
   };
 
   // Handle device selection
@@ -78,43 +70,50 @@ const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
     setSelectedDevice(device);
   };
 
-  // Simulate connecting to a device
-  const connectToDevice = () => {
+  // Open a telemetry stream to the selected device
+  const connectToDevice = async () => {
     if (!selectedDevice) return;
     
     setConnectionStatus('connecting');
+    setConnectionError(null);
     
-    // Simulate connection process
-    setTimeout(() => {
-      // 90% chance of successful connection
-      const isSuccessful = Math.random() < 0.9;
+    try {
+      const newConnection = await openDeviceConnection(selectedDevice);
       
-      if (isSuccessful) {
-        setConnectionStatus('connected');
-        setIsConnected(true);
-        
-        // Update device status in the list
-        setAvailableDevices(prev => 
-          prev.map(device => 
-            device.id === selectedDevice.id 
-              ? { ...device, status: 'connected' } 
-              : device
-          )
-        );
-        
-        // Navigate to dashboard after a delay
-        setTimeout(() => {
-          navigate('/dashboard');
-        }, 1500);
-      } else {
-        setConnectionStatus('failed');
-      }
-    }, 2000);
+      dispatch({ type: 'setConnection', connection: newConnection });
+      setConnectionStatus('connected');
+      
+      // Update device status in the list
+      setAvailableDevices(prev => 
+        prev.map(device => 
+          device.id === selectedDevice.id 
+            ? { ...device, status: 'connected' } 
+            : device
+        )
+      );
+      
+      // Navigate to dashboard after a delay
+      setTimeout(() => {
+        navigate('/dashboard');
+      }, 1500);
+    } catch (error) {
+      console.error('Connection failed:', error);
+      setConnectionStatus('failed');
+      setConnectionError(error instanceof Error ? error.message : 'Connection failed');
+      setAvailableDevices(prev => 
+        prev.map(device => 
+          device.id === selectedDevice.id 
+            ? { ...device, status: 'error' } 
+            : device
+        )
+      );
+    }
   };
 
   // Reset connection
   const handleDisconnect = () => {
-    setIsConnected(false);
+    connection?.close();
+    dispatch({ type: 'setConnection', connection: null });
     setConnectionStatus('idle');
     setSelectedDevice(null);
     
@@ -124,9 +123,19 @@ const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
     );
   };
 
+  // Reflect a stream dropped by the gateway while this page is open
+  useEffect(() => {
+    if (!isConnected && connectionStatus === 'connected') {
+      setConnectionStatus('idle');
+      setAvailableDevices(prev => 
+        prev.map(device => ({ ...device, status: 'available' }))
+      );
+    }
+  }, [isConnected, connectionStatus]);
+
   // Auto-scan for devices on first load
   useEffect(() => {
-    if (!isConnected && availableDevices.length === 0 && !isScanning) {
+    if (availableDevices.length === 0 && !isScanning) {
       scanForDevices();
     }
   }, []);
@@ -182,11 +191,18 @@ const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
                       onClick={() => handleSelectDevice(device)}
                     >
                       <div className="flex justify-between items-center">
-                        <span className="text-gray-800 font-medium">{device.name} ({device.type})</span>
+                        <span className="text-gray-800 font-medium">
+                          {device.name} ({device.type})
+                          <span className="ml-2 text-xs uppercase text-gray-500">{device.protocol}</span>
+                        </span>
                         <span className={`text-sm font-semibold ${device.status === 'available' ? 'text-green-600' : 'text-red-600'}`}>{device.status}</span>
                       </div>
                     </motion.li>
                   ))
+                ) : scanError ? (
+                  <motion.li variants={itemVariants} className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">
+                    Device discovery failed: {scanError}
+                  </motion.li>
                 ) : (
                   <motion.li variants={itemVariants} className="text-gray-500 text-center">
                     {isScanning ? 'Scanning for devices...' : 'No devices found'}
@@ -207,11 +223,14 @@ const Connect = ({ setIsConnected, isConnected }: ConnectProps) => {
               ) : (
                 <p className="text-gray-500">Select a device to connect</p>
               )}
+              {connectionError && (
+                <p className="mt-2 text-sm text-red-600">{connectionError}</p>
+              )}
             </div>
             <motion.button
               variants={itemVariants}
               onClick={selectedDevice && connectionStatus !== 'connected' ? connectToDevice : handleDisconnect}
-              disabled={!selectedDevice}
+              disabled={!selectedDevice || connectionStatus === 'connecting'}
               className={`w-full text-center py-2 px-4 rounded-lg font-medium transition-all ${connectionStatus === 'connected' ? 'bg-red-600 text-white hover:bg-red-700' : 'bg-primary-600 text-white hover:bg-primary-700'} disabled:bg-gray-300 disabled:cursor-not-allowed`}
             >
               {connectionStatus === 'idle' && 'Connect'}
@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import TagEditor from '../components/Datasets/TagEditor';
+import DatasetCompareSummary from '../components/Datasets/DatasetCompareSummary';
+import { deleteDataset, getDataset, listDatasets, updateDataset } from '../store/persistence';
+import { useAppDispatch, useAppState } from '../store/appState';
+import type { DatasetSummary } from '../types/dataset';
+import { buildBaselineProfile } from '../utils/drift';
+
+const Datasets = () => {
+  const navigate = useNavigate();
+  const { currentDataset, driftBaseline } = useAppState();
+  const dispatch = useAppDispatch();
+  const [datasets, setDatasets] = useState<DatasetSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameDraft, setRenameDraft] = useState('');
+  const renameHandledRef = useRef(false); // The input can blur after Enter/Escape already ended the rename
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+
+  // Animation variants
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { y: 20, opacity: 0 },
+    visible: {
+      y: 0,
+      opacity: 1,
+      transition: {
+        duration: 0.5,
+        ease: "easeOut"
+      }
+    }
+  };
+
+  useEffect(() => {
+    listDatasets()
+      .then(setDatasets)
+      .catch(error => {
+        console.error('Could not load datasets:', error);
+        setError(error instanceof Error ? error.message : 'Could not load datasets');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(datasets.flatMap(dataset => dataset.tags))).sort(),
+    [datasets]
+  );
+
+  const visibleDatasets = datasets.filter(dataset =>
+    dataset.name.toLowerCase().includes(search.trim().toLowerCase()) &&
+    (!tagFilter || dataset.tags.includes(tagFilter))
+  );
+
+  const comparedDatasets = compareIds
+    .map(id => datasets.find(dataset => dataset.id === id))
+    .filter((dataset): dataset is DatasetSummary => !!dataset);
+
+  // Apply an edit locally straight away, then persist it
+  const applyChanges = async (id: string, changes: Partial<Pick<DatasetSummary, 'name' | 'tags'>>) => {
+    setDatasets(prev => prev.map(dataset => dataset.id === id ? { ...dataset, ...changes } : dataset));
+    dispatch({ type: 'datasetUpdated', id, changes });
+    try {
+      await updateDataset(id, changes);
+    } catch (error) {
+      console.error('Could not update dataset:', error);
+      setError(error instanceof Error ? error.message : 'Could not update dataset');
+    }
+  };
+
+  const startRename = (dataset: DatasetSummary) => {
+    renameHandledRef.current = false;
+    setRenamingId(dataset.id);
+    setRenameDraft(dataset.name);
+  };
+
+  const finishRename = (save: boolean) => {
+    if (renameHandledRef.current) return;
+    renameHandledRef.current = true;
+
+    const name = renameDraft.trim();
+    if (save && renamingId && name) {
+      applyChanges(renamingId, { name });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (dataset: DatasetSummary) => {
+    if (!window.confirm(`Delete "${dataset.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteDataset(dataset.id);
+      setDatasets(prev => prev.filter(other => other.id !== dataset.id));
+      setCompareIds(prev => prev.filter(id => id !== dataset.id));
+      dispatch({ type: 'datasetDeleted', id: dataset.id });
+    } catch (error) {
+      console.error('Could not delete dataset:', error);
+      setError(error instanceof Error ? error.message : 'Could not delete dataset');
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    try {
+      const dataset = await getDataset(id);
+      if (!dataset) throw new Error('This dataset is no longer stored in the browser');
+      dispatch({ type: 'setCurrentDataset', dataset });
+      navigate('/dashboard');
+    } catch (error) {
+      console.error('Could not open dataset:', error);
+      setError(error instanceof Error ? error.message : 'Could not open dataset');
+    }
+  };
+
+  // Uploads are checked for drift against this dataset from now on
+  const handleSetBaseline = async (summary: DatasetSummary) => {
+    if (!window.confirm(`Check uploads for drift against "${summary.name}" instead of "${driftBaseline.name}"?`)) return;
+
+    try {
+      const dataset = await getDataset(summary.id);
+      if (!dataset) throw new Error('This dataset is no longer stored in the browser');
+      dispatch({ type: 'setDriftBaseline', baseline: buildBaselineProfile(dataset.data, dataset.name, dataset.id) });
+    } catch (error) {
+      console.error('Could not set drift baseline:', error);
+      setError(error instanceof Error ? error.message : 'Could not set drift baseline');
+    }
+  };
+
+  // Keep at most two datasets selected; picking a third replaces the oldest pick
+  const toggleCompare = (id: string) => {
+    setShowComparison(false);
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <motion.div
+        initial="hidden"
+        animate="visible"
+        variants={containerVariants}
+        className="text-center mb-12"
+      >
+        <motion.h1
+          variants={itemVariants}
+          className="text-3xl md:text-4xl font-display font-bold text-gray-900 dark:text-white"
+        >
+          Dataset Library
+        </motion.h1>
+        <motion.p
+          variants={itemVariants}
+          className="mt-4 text-xl text-gray-600 dark:text-gray-300 max-w-3xl mx-auto"
+        >
+          Every dataset analysed in this browser, stored locally so it works offline
+        </motion.p>
+      </motion.div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 text-red-700 rounded-lg">
+          <p className="text-sm font-medium">Error: {error}</p>
+        </div>
+      )}
+
+      {showComparison && comparedDatasets.length === 2 && (
+        <DatasetCompareSummary
+          datasets={[comparedDatasets[0], comparedDatasets[1]]}
+          onClose={() => setShowComparison(false)}
+          detailsTo={`/compare?first=${comparedDatasets[0].id}&second=${comparedDatasets[1].id}`}
+        />
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden"
+      >
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center gap-4">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name"
+            className="flex-1 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
+          />
+          <select
+            value={tagFilter ?? ''}
+            onChange={(e) => setTagFilter(e.target.value || null)}
+            className="bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
+          >
+            <option value="">All tags</option>
+            {allTags.map(tag => (
+              <option key={tag} value={tag}>{tag}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setShowComparison(true)}
+            disabled={comparedDatasets.length !== 2}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            Compare {comparedDatasets.length}/2
+          </button>
+        </div>
+
+        {isLoading ? (
+          <p className="p-6 text-center text-gray-500 dark:text-gray-400">Loading datasets...</p>
+        ) : datasets.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-gray-600 dark:text-gray-400">No datasets analysed yet.</p>
+            <Link
+              to="/upload"
+              className="mt-4 inline-block text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+            >
+              Upload a dataset
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Compare</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Name</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Size</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Records</th>
+                  <th
+                    className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300"
+                    title="Records the model predicted as failures when the dataset was analysed; score bands set on the Dashboard aren't applied"
+                  >
+                    Anomalies
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Analysed</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Tags</th>
+                  <th className="px-4 py-3 text-right font-medium text-gray-500 dark:text-gray-300">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleDatasets.map(dataset => (
+                  <tr key={dataset.id} className={dataset.id === currentDataset?.id ? 'bg-primary-50 dark:bg-primary-900/20' : ''}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={compareIds.includes(dataset.id)}
+                        onChange={() => toggleCompare(dataset.id)}
+                        aria-label={`Compare ${dataset.name}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 font-medium text-gray-900 dark:text-white">
+                      {renamingId === dataset.id ? (
+                        <input
+                          autoFocus
+                          value={renameDraft}
+                          onChange={(e) => setRenameDraft(e.target.value)}
+                          onBlur={() => finishRename(true)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') finishRename(true);
+                            if (e.key === 'Escape') finishRename(false);
+                          }}
+                          className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm"
+                        />
+                      ) : (
+                        <>
+                          {dataset.name}
+                          {dataset.id === currentDataset?.id && (
+                            <span className="ml-2 text-xs font-normal text-primary-600 dark:text-primary-400">open</span>
+                          )}
+                          {dataset.id === driftBaseline.datasetId && (
+                            <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">drift baseline</span>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">{dataset.size}</td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{dataset.records.toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{(dataset.anomaliesCount ?? 0).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {new Date(dataset.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      <TagEditor
+                        tags={dataset.tags}
+                        suggestions={allTags}
+                        onChange={(tags) => applyChanges(dataset.id, { tags })}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => handleOpen(dataset.id)}
+                        className="font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+                      >
+                        Open
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleSetBaseline(dataset)}
+                        disabled={dataset.id === driftBaseline.datasetId}
+                        className="font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white disabled:text-gray-300 dark:disabled:text-gray-600 disabled:cursor-not-allowed"
+                      >
+                        Use as baseline
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => startRename(dataset)}
+                        className="font-medium text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                      >
+                        Rename
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(dataset)}
+                        className="font-medium text-red-600 dark:text-red-400 hover:text-red-500"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleDatasets.length === 0 && (
+              <p className="p-6 text-center text-gray-500 dark:text-gray-400">No datasets match the current filters.</p>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default Datasets;
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import WorkOrderDetail from '../components/Maintenance/WorkOrderDetail';
+import CmmsExportPanel from '../components/Maintenance/CmmsExportPanel';
+import { getPriorityBadgeClass, getWorkOrderStatusClass } from '../components/Maintenance/status';
+import { useAppState } from '../store/appState';
+import { WORK_ORDER_STATUS_LABELS } from '../types/workOrders';
+import type { WorkOrderStatus } from '../types/workOrders';
+
+const STATUS_FILTERS = Object.keys(WORK_ORDER_STATUS_LABELS) as WorkOrderStatus[];
+
+const Maintenance = () => {
+  const { workOrders } = useAppState();
+  const [statusFilter, setStatusFilter] = useState<WorkOrderStatus | null>(null);
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  // Animation variants
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { y: 20, opacity: 0 },
+    visible: {
+      y: 0,
+      opacity: 1,
+      transition: {
+        duration: 0.5,
+        ease: "easeOut"
+      }
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleOrders = workOrders.filter(order =>
+    (!statusFilter || order.status === statusFilter) &&
+    [order.id, order.title, order.equipment, order.source, order.assignee].some(text => text.toLowerCase().includes(query))
+  );
+  const openOrder = workOrders.find(order => order.id === openId);
+
+  // Selections outside the current filter aren't exported
+  const selectedOrders = visibleOrders.filter(order => selectedIds.includes(order.id));
+  const isAllSelected = visibleOrders.length > 0 && selectedOrders.length === visibleOrders.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(isAllSelected ? [] : visibleOrders.map(order => order.id));
+  };
+
+  const filterButtonClass = (isActive: boolean) =>
+    `px-3 py-1.5 rounded-md text-sm font-medium ${isActive
+      ? 'bg-primary-600 text-white'
+      : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <motion.div
+        initial="hidden"
+        animate="visible"
+        variants={containerVariants}
+        className="text-center mb-12"
+      >
+        <motion.h1
+          variants={itemVariants}
+          className="text-3xl md:text-4xl font-display font-bold text-gray-900 dark:text-white"
+        >
+          Maintenance Work Orders
+        </motion.h1>
+        <motion.p
+          variants={itemVariants}
+          className="mt-4 text-xl text-gray-600 dark:text-gray-300 max-w-3xl mx-auto"
+        >
+          Work orders raised from anomalies, tracked from open to completed
+        </motion.p>
+      </motion.div>
+
+      {openOrder && (
+        <div className="mb-6">
+          <WorkOrderDetail key={openOrder.id} workOrder={openOrder} onClose={() => setOpenId(null)} />
+        </div>
+      )}
+
+      {workOrders.length > 0 && (
+        <CmmsExportPanel
+          orders={selectedOrders.length > 0 ? selectedOrders : visibleOrders}
+          isSelection={selectedOrders.length > 0}
+        />
+      )}
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5, delay: 0.2 }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden"
+      >
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex flex-wrap gap-1">
+            <button type="button" onClick={() => setStatusFilter(null)} className={filterButtonClass(statusFilter === null)}>
+              All ({workOrders.length})
+            </button>
+            {STATUS_FILTERS.map(status => (
+              <button
+                key={status}
+                type="button"
+                onClick={() => setStatusFilter(status)}
+                className={filterButtonClass(statusFilter === status)}
+              >
+                {WORK_ORDER_STATUS_LABELS[status]} ({workOrders.filter(order => order.status === status).length})
+              </button>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title, parameter, source or assignee"
+            className="flex-1 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
+          />
+        </div>
+
+        {workOrders.length === 0 ? (
+          <div className="p-12 text-center">
+            <p className="text-gray-600 dark:text-gray-400">No work orders yet. Create one from an anomaly on the dashboard.</p>
+            <Link
+              to="/dashboard"
+              className="mt-4 inline-block text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-500"
+            >
+              Go to the dashboard
+            </Link>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input type="checkbox" checked={isAllSelected} onChange={toggleAll} aria-label="Select all work orders" />
+                  </th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Work order</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Parameter</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Priority</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Status</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Assignee</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">Updated</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-500 dark:text-gray-300">CMMS</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {visibleOrders.map(order => (
+                  <tr key={order.id} className={order.id === openId ? 'bg-primary-50 dark:bg-primary-900/20' : ''}>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(order.id)}
+                        onChange={() => toggleSelected(order.id)}
+                        aria-label={`Select ${order.id}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <button
+                        type="button"
+                        onClick={() => setOpenId(order.id)}
+                        className="text-left font-medium text-gray-900 dark:text-white hover:text-primary-600 dark:hover:text-primary-400"
+                      >
+                        {order.title}
+                      </button>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{order.id} · {order.source}</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{order.equipment}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${getPriorityBadgeClass(order.priority)}`}>
+                        {order.priority}
+                      </span>
+                    </td>
+                    <td className={`px-4 py-3 font-medium whitespace-nowrap ${getWorkOrderStatusClass(order.status)}`}>
+                      {WORK_ORDER_STATUS_LABELS[order.status]}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{order.assignee || '—'}</td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {new Date(order.updatedAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                      {order.externalId ?? (order.exportedAt ? 'Exported' : '—')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleOrders.length === 0 && (
+              <p className="p-6 text-center text-gray-500 dark:text-gray-400">No work orders match the current filters.</p>
+            )}
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default Maintenance;
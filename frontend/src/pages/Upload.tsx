@@ -1,6 +1,34 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import DatasetPreview from '../components/Upload/DatasetPreview';
+import ColumnMappingWizard from '../components/Upload/ColumnMappingWizard';
+import { hasBlockingIssues, MAX_FILE_SIZE } from '../utils/datasetParser';
+import type { ParsedDataset } from '../utils/datasetParser';
+import { loadSavedMapping, saveMapping, suggestMapping } from '../utils/columnMapping';
+import type { ColumnMapping } from '../utils/columnMapping';
+import { createDatasetWorker } from '../workers/datasetWorkerClient';
+import type { DatasetWorkerClient } from '../workers/datasetWorkerClient';
+import { isCancelledError } from '../services/api/errors';
+import { uploadForPrediction } from '../services/api/predict';
+import type { ChunkedUploadSession } from '../services/api/predict';
+import type { PredictionRecord } from '../services/api/types';
+import type { Dataset } from '../types/dataset';
+import { useAppDispatch, useAppState } from '../store/appState';
+import { saveDataset } from '../store/persistence';
+import { ANALYSIS_ENGINE_LABELS, ANALYSIS_TYPE_LABELS, REPORT_DETAIL_LABELS, SENSITIVITY_LABELS } from '../types/analysis';
+import type { AnalysisEngine, AnalysisOptions, AnalysisType, DetectionSensitivity, ReportDetail } from '../types/analysis';
+import { applyFailureThreshold, toPredictOptions } from '../utils/predictions';
+import { crossCheckPredictions, DETECTOR_LABELS, DETECTORS_BY_TYPE } from '../utils/detection';
+
+type UploadPhase = 'preparing' | 'uploading' | 'processing' | 'complete';
+
+const phaseLabels: Record<UploadPhase, string> = {
+  preparing: 'Preparing dataset...',
+  uploading: 'Uploading dataset...',
+  processing: 'Running analysis...',
+  complete: 'Upload complete',
+};
 
 // Mock data for demonstration
 const sampleDatasets = [
@@ -9,19 +37,88 @@ const sampleDatasets = [
   { id: 3, name: 'Power Generator', size: '1.9 MB', records: 4210, description: 'Voltage and current data from power generators with anomaly markers' }
 ];
 
-// API URL configuration - make sure to update this for production
-const API_URL: string = import.meta.env.VITE_API_URL || "http://localhost:8000";// or "https://your-fastapi-backend-url.com"
+// Synthetic AI4I-style readings for a sample dataset: temperatures drift slowly, torque
+// follows a roughly constant power draw, and about 3% of records carry an injected fault
+const generateSampleRecords = (sampleId: number): PredictionRecord[] => {
+  const recordCount = sampleDatasets.find(d => d.id === sampleId)?.records || 1000;
+  const noise = () => (Math.random() + Math.random() + Math.random() - 1.5) * 2;
+  let airTemperature = 300;
+  let toolWear = 0;
 
-const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void }) => {
+  return Array.from({ length: recordCount }, (_, i) => {
+    airTemperature += noise() * 0.05 + (300 - airTemperature) * 0.01;
+    toolWear = toolWear >= 240 ? 0 : toolWear + Math.floor(Math.random() * 3);
+    let speed = 1540 + noise() * 120;
+    let torque = 6300 / (speed * 2 * Math.PI / 60) + noise() * 4;
+    let processTemperature = airTemperature + 10 + noise() * 0.5;
+
+    if (Math.random() < 0.03) {
+      const fault = Math.floor(Math.random() * 3);
+      if (fault === 0) torque += 25 + Math.random() * 20; // Overstrain
+      if (fault === 1) processTemperature -= 6 + Math.random() * 3; // Poor heat dissipation
+      if (fault === 2) speed -= 500 + Math.random() * 300; // Power drop
+    }
+
+    return {
+      timestamp: new Date(Date.now() - (recordCount - i) * 60000).toISOString(),
+      "Type": Math.random() < 0.6 ? "L" : Math.random() < 0.75 ? "M" : "H",
+      "Air temperature [K]": Number(airTemperature.toFixed(1)),
+      "Process temperature [K]": Number(processTemperature.toFixed(1)),
+      "Rotational speed [rpm]": Math.round(speed),
+      "Torque [Nm]": Number(torque.toFixed(1)),
+      "Tool wear [min]": toolWear,
+      "Prediction": "No Failure"
+    };
+  });
+};
+
+const Upload = () => {
   const navigate = useNavigate();
+  const { analysisOptions } = useAppState();
+  const dispatch = useAppDispatch();
   const [dragActive, setDragActive] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [selectedSample, setSelectedSample] = useState<number | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadComplete, setUploadComplete] = useState(false);
+  const [uploadPhase, setUploadPhase] = useState<UploadPhase>('preparing');
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [parsedDataset, setParsedDataset] = useState<ParsedDataset | null>(null);
+  const [preparedDataset, setPreparedDataset] = useState<ParsedDataset | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+  const [savedSourceName, setSavedSourceName] = useState<string | null>(null);
+  const [uploadSession, setUploadSession] = useState<ChunkedUploadSession | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const parseRequestRef = useRef(0);
+  const prepareRequestRef = useRef(0);
+  const workerRef = useRef<DatasetWorkerClient | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const mappedFileRef = useRef<File | null>(null);
+
+  // Parsing, mapping and CSV export run in a worker so large files don't block the page
+  const getWorker = () => {
+    if (!workerRef.current) {
+      workerRef.current = createDatasetWorker();
+    }
+    return workerRef.current;
+  };
+
+  // Cancel terminates the worker, and the parsed file with it, so load the file into a new one
+  const getLoadedWorker = async (signal?: AbortSignal) => {
+    if (workerRef.current || !uploadedFile) return getWorker();
+    const worker = getWorker();
+    await worker.parse(uploadedFile, signal);
+    await worker.prepare(columnMapping, signal);
+    return worker;
+  };
+
+  useEffect(() => () => {
+    abortControllerRef.current?.abort();
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
 
   // Animation variants
   const containerVariants = {
@@ -73,116 +170,209 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
     }
   };
 
-  const handleFile = (file: File) => {
+  const handleFile = async (file: File) => {
     setUploadedFile(file);
     setSelectedSample(null);
     setUploadError(null);
+    setParsedDataset(null);
+    setPreparedDataset(null);
+    setColumnMapping(null);
+    setUploadSession(null);
+    mappedFileRef.current = null;
+    setIsParsing(true);
+    
+    // Parse in the browser so problems show up before the backend round trip;
+    // ignore results from a file that has since been replaced
+    const request = ++parseRequestRef.current;
+    let parsed: ParsedDataset;
+    try {
+      parsed = await getWorker().parse(file);
+    } catch (error) {
+      if (request !== parseRequestRef.current) return;
+      setUploadError(error instanceof Error ? error.message : 'Could not read the file');
+      setIsParsing(false);
+      return;
+    }
+    if (request !== parseRequestRef.current) return;
+    
+    // Reuse the mapping saved for files with the same headers, otherwise guess one
+    const saved = loadSavedMapping(parsed.columns);
+    const mapping = parsed.columns.length > 0 ? saved?.mapping || suggestMapping(parsed.columns) : null;
+    setColumnMapping(mapping);
+    setSavedSourceName(saved?.sourceName || null);
+    setParsedDataset(parsed);
+    setIsParsing(false);
+    await prepareDataset(mapping);
+  };
+
+  // Apply the column mapping in the worker and keep the preview of the result
+  const prepareDataset = async (mapping: ColumnMapping | null) => {
+    const request = ++prepareRequestRef.current;
+    setIsPreparing(true);
+    setUploadSession(null);
+    mappedFileRef.current = null;
+    try {
+      const prepared = await (await getLoadedWorker()).prepare(mapping);
+      if (request !== prepareRequestRef.current) return;
+      setPreparedDataset(prepared);
+    } catch (error) {
+      if (request !== prepareRequestRef.current) return;
+      setUploadError(error instanceof Error ? error.message : 'Could not apply the column mapping');
+    }
+    setIsPreparing(false);
+  };
+
+  const handleMappingChange = (mapping: ColumnMapping) => {
+    setColumnMapping(mapping);
+    setSavedSourceName(null);
+    prepareDataset(mapping);
+  };
+
+  const resetMapping = () => {
+    if (!parsedDataset) return;
+    const mapping = suggestMapping(parsedDataset.columns);
+    setColumnMapping(mapping);
+    setSavedSourceName(null);
+    prepareDataset(mapping);
+  };
+
+  const clearFile = () => {
+    parseRequestRef.current++;
+    prepareRequestRef.current++;
+    setUploadedFile(null);
+    setParsedDataset(null);
+    setPreparedDataset(null);
+    setColumnMapping(null);
+    setUploadSession(null);
+    mappedFileRef.current = null;
+    setIsParsing(false);
+    setIsPreparing(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const setAnalysisOptions = (options: Partial<AnalysisOptions>) => {
+    dispatch({ type: 'setAnalysisOptions', options });
   };
 
   const handleSampleSelect = (id: number) => {
+    clearFile();
     setSelectedSample(id);
-    setUploadedFile(null);
     setUploadError(null);
   };
 
+  const isFileBlocked = !!uploadedFile && (isParsing || isPreparing || !preparedDataset || hasBlockingIssues(preparedDataset));
+  const canStartAnalysis = (!!uploadedFile || selectedSample !== null) && !isFileBlocked;
+
   const handleUpload = async () => {
-    if (!uploadedFile && !selectedSample) return;
+    if (!canStartAnalysis) return;
   
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsUploading(true);
     setUploadProgress(0);
-    setUploadComplete(false);
+    setUploadPhase('preparing');
     setUploadError(null);
   
     try {
-      // Start progress simulation
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 5;
-        });
-      }, 200);
-      
-      let predictionData;
-      
-      if (uploadedFile) {
-        // Create FormData for file upload
-        const formData = new FormData();
-        formData.append('file', uploadedFile);
-      
-        // Send the file to the backend API
-        const response = await fetch(`${API_URL}/predict`, {
-          method: 'POST',
-          body: formData
-        });
+      let predictionData: PredictionRecord[] | undefined;
       
-        if (!response.ok) {
-          throw new Error(`Server responded with ${response.status}: ${await response.text()}`);
+      if (uploadedFile && parsedDataset) {
+        if (columnMapping) {
+          saveMapping(parsedDataset.columns, uploadedFile.name, columnMapping);
+        }
+        
+        if (analysisOptions.engine === 'local') {
+          // Analyse the prepared rows in the worker; nothing is sent to the backend
+          setUploadPhase('processing');
+          predictionData = await (await getLoadedWorker(abortController.signal)).detect(analysisOptions, undefined, abortController.signal);
+          abortController.signal.throwIfAborted();
+        } else {
+          // Send the mapped rows as CSV so the backend always sees the model's schema.
+          // The exported file is kept so a resumed upload sends the same bytes.
+          if (!mappedFileRef.current) {
+            const worker = await getLoadedWorker(abortController.signal);
+            mappedFileRef.current = await worker.exportCsv(uploadedFile.name.replace(/\.[^.]+$/, '') + '.csv', abortController.signal);
+          }
+        
+          setUploadPhase('uploading');
+          predictionData = await uploadForPrediction(mappedFileRef.current, {
+            options: toPredictOptions(analysisOptions),
+            signal: abortController.signal,
+            session: uploadSession,
+            onSession: setUploadSession,
+            onProgress: ({ phase, loaded, total }) => {
+              setUploadPhase(phase);
+              setUploadProgress(total > 0 ? Math.round((loaded / total) * 100) : 0);
+            },
+          });
+          setUploadSession(null);
+
+          if (analysisOptions.engine === 'crosscheck') {
+            setUploadPhase('processing');
+            const localPredictions = await getWorker().detect(analysisOptions, predictionData, abortController.signal);
+            abortController.signal.throwIfAborted();
+            predictionData = crossCheckPredictions(predictionData, localPredictions);
+          }
         }
-      
-        predictionData = await response.json();
       } else if (selectedSample) {
-        // Handle sample dataset selection
-        // In a real app, you might fetch this from your backend
-        // Here we'll simulate with mock data
-        predictionData = await simulateSampleDataPrediction(selectedSample);
+        // Sample datasets have no copy on the backend, so they are always analysed in the browser
+        setUploadPhase('processing');
+        predictionData = await getWorker().detect(analysisOptions, generateSampleRecords(selectedSample), abortController.signal);
+        abortController.signal.throwIfAborted();
       }
+
+      if (!predictionData) return;
+      predictionData = applyFailureThreshold(predictionData, analysisOptions);
   
-      clearInterval(progressInterval);
       setUploadProgress(100);
-      setUploadComplete(true);
+      setUploadPhase('complete');
   
       // Organize the data for the dashboard
-      const dataset = {
+      const sample = sampleDatasets.find(d => d.id === selectedSample);
+      const dataset: Dataset = {
         id: uploadedFile ? 'custom-' + Date.now() : `sample-${selectedSample}`,
-        name: uploadedFile ? uploadedFile.name : sampleDatasets.find(d => d.id === selectedSample)?.name,
-        size: uploadedFile ? (uploadedFile.size / (1024 * 1024)).toFixed(1) + ' MB' : 
-              sampleDatasets.find(d => d.id === selectedSample)?.size,
+        name: uploadedFile ? uploadedFile.name : sample?.name ?? 'Sample dataset',
+        size: uploadedFile ? (uploadedFile.size / (1024 * 1024)).toFixed(1) + ' MB' : sample?.size ?? '',
         records: predictionData.length,
         data: predictionData,
         isCustom: !!uploadedFile,
-        anomaliesCount: predictionData.filter((item: any) => item.Prediction === "Failure").length
+        anomaliesCount: predictionData.filter(item => item.Prediction === "Failure").length,
+        createdAt: new Date().toISOString(),
+        tags: [],
+        analysisOptions
       };
   
-      // Set the current dataset to be used in the Dashboard
-      setCurrentDataset(dataset);
+      // Keep it in the library and open it in the Dashboard
+      saveDataset(dataset).catch(error => console.error('Could not save dataset:', error));
+      dispatch({ type: 'setCurrentDataset', dataset });
   
       // Navigate to dashboard after a short delay
       setTimeout(() => {
         navigate('/dashboard');
       }, 1500);
     } catch (error) {
-      console.error('Upload failed:', error);
-      setUploadError(error instanceof Error ? error.message : 'An unknown error occurred');
+      // Worker steps reject with the abort reason rather than an ApiError, so check the signal as well
+      if (abortController.signal.aborted || isCancelledError(error)) {
+        setUploadError('Upload cancelled');
+      } else {
+        console.error('Upload failed:', error);
+        setUploadError(error instanceof Error ? error.message : 'An unknown error occurred');
+      }
       setIsUploading(false);
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
     }
   };
 
-  // Function to simulate predictions for sample datasets
-  const simulateSampleDataPrediction = async (sampleId: number) => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Generate mock prediction data based on sample ID
-    const recordCount = sampleDatasets.find(d => d.id === sampleId)?.records || 1000;
-    const sampleSize = Math.min(recordCount, 100); // Limit to 100 records for performance
-    
-    return Array.from({ length: sampleSize }, (_, i) => {
-      const isAnomaly = Math.random() > 0.85; // 15% chance of anomaly
-      return {
-        id: i,
-        timestamp: new Date(Date.now() - (sampleSize - i) * 3600000).toISOString(),
-        "Type": ["L", "M", "H"][Math.floor(Math.random() * 3)],
-        "Air temperature [K]": 290 + Math.random() * 20,
-        "Process temperature [K]": 305 + Math.random() * 15,
-        "Rotational speed [rpm]": 1000 + Math.random() * 2000,
-        "Torque [Nm]": 20 + Math.random() * 60,
-        "Tool wear [min]": Math.floor(Math.random() * 200),
-        "Prediction": isAnomaly ? "Failure" : "No Failure"
-      };
-    });
+  const cancelUpload = () => {
+    abortControllerRef.current?.abort();
+    // Local analysis and the CSV export can't be interrupted, so stop the worker running them
+    workerRef.current?.terminate();
+    workerRef.current = null;
   };
 
   const openFileSelector = () => {
@@ -273,7 +463,7 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
                     </button>
                   </p>
                   <p className="mt-2 text-xs text-gray-500 dark:text-gray-500">
-                    Files up to 50MB
+                    Files up to {MAX_FILE_SIZE / (1024 * 1024)}MB
                   </p>
                 </>
               ) : (
@@ -299,12 +489,14 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400">
                         {(uploadedFile.size / (1024 * 1024)).toFixed(2)} MB
+                        {isParsing && ' · Parsing...'}
+                        {parsedDataset && !isParsing && ` · ${parsedDataset.rowCount.toLocaleString()} rows`}
                       </p>
                     </div>
                   </div>
                   <button
                     type="button"
-                    onClick={() => setUploadedFile(null)}
+                    onClick={clearFile}
                     className="mt-4 text-xs text-red-600 dark:text-red-400 hover:text-red-500 dark:hover:text-red-300 font-medium"
                   >
                     Remove file
@@ -363,6 +555,20 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
         </motion.div>
       </div>
       
+      {/* Column Mapping */}
+      {parsedDataset && columnMapping && (
+        <ColumnMappingWizard
+          columns={parsedDataset.columns}
+          mapping={columnMapping}
+          onChange={handleMappingChange}
+          savedSourceName={savedSourceName}
+          onReset={resetMapping}
+        />
+      )}
+      
+      {/* Parsed File Preview */}
+      {preparedDataset && <DatasetPreview dataset={preparedDataset} />}
+      
       {/* Analysis Options and Upload Button */}
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
@@ -375,30 +581,72 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
         </div>
         
         <div className="p-6">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <h3 className="font-medium text-gray-900 dark:text-white mb-2">Detection Engine</h3>
+              <select 
+                className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
+                value={analysisOptions.engine}
+                onChange={(e) => setAnalysisOptions({ engine: e.target.value as AnalysisEngine })}
+                disabled={isUploading}
+              >
+                {Object.entries(ANALYSIS_ENGINE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              {(analysisOptions.engine !== 'model' || selectedSample !== null) && (
+                <p className="mt-3 text-xs text-gray-500 dark:text-gray-400">
+                  {selectedSample !== null && 'Sample datasets are always analysed in the browser. '}
+                  Runs {DETECTORS_BY_TYPE[analysisOptions.analysisType].map(detector => DETECTOR_LABELS[detector]).join(', ')}.
+                </p>
+              )}
+            </div>
+            
             <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
               <h3 className="font-medium text-gray-900 dark:text-white mb-2">Detection Sensitivity</h3>
               <select 
                 className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
-                defaultValue="medium"
+                value={analysisOptions.sensitivity}
+                onChange={(e) => setAnalysisOptions({ sensitivity: e.target.value as DetectionSensitivity })}
+                disabled={isUploading}
               >
-                <option value="low">Low (fewer alerts)</option>
-                <option value="medium">Medium (balanced)</option>
-                <option value="high">High (more alerts)</option>
-                <option value="custom">Custom threshold</option>
+                {Object.entries(SENSITIVITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
+              {analysisOptions.sensitivity === 'custom' && (
+                <label className="mt-3 flex items-center text-sm text-gray-600 dark:text-gray-400">
+                  Flag records with failure probability ≥
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={analysisOptions.customThreshold}
+                    onChange={(e) => {
+                      const threshold = Number(e.target.value);
+                      if (e.target.value !== '' && threshold >= 0 && threshold <= 1) {
+                        setAnalysisOptions({ customThreshold: threshold });
+                      }
+                    }}
+                    disabled={isUploading}
+                    className="ml-2 w-20 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-1 px-2 text-sm"
+                  />
+                </label>
+              )}
             </div>
             
             <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
               <h3 className="font-medium text-gray-900 dark:text-white mb-2">Analysis Type</h3>
               <select 
                 className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
-                defaultValue="all"
+                value={analysisOptions.analysisType}
+                onChange={(e) => setAnalysisOptions({ analysisType: e.target.value as AnalysisType })}
+                disabled={isUploading}
               >
-                <option value="all">Full Spectrum Analysis</option>
-                <option value="univariate">Univariate Analysis</option>
-                <option value="multivariate">Multivariate Analysis</option>
-                <option value="correlation">Correlation Analysis</option>
+                {Object.entries(ANALYSIS_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
             </div>
             
@@ -406,12 +654,13 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
               <h3 className="font-medium text-gray-900 dark:text-white mb-2">Report Detail Level</h3>
               <select 
                 className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md py-2 px-3 text-sm"
-                defaultValue="standard"
+                value={analysisOptions.reportDetail}
+                onChange={(e) => setAnalysisOptions({ reportDetail: e.target.value as ReportDetail })}
+                disabled={isUploading}
               >
-                <option value="basic">Basic (overview only)</option>
-                <option value="standard">Standard (with explanations)</option>
-                <option value="detailed">Detailed (technical)</option>
-                <option value="comprehensive">Comprehensive (all details)</option>
+                {Object.entries(REPORT_DETAIL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -429,22 +678,32 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
           <div className="max-w-md mx-auto">
             <div className="mb-2 flex justify-between items-center">
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                {uploadComplete ? 'Upload complete' : 'Uploading dataset...'}
+                {phaseLabels[uploadPhase]}
               </span>
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                {uploadProgress}%
+                {uploadPhase === 'uploading' || uploadPhase === 'complete' ? `${uploadProgress}%` : ''}
               </span>
             </div>
             <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
               <div 
-                className="bg-primary-600 h-2.5 rounded-full transition-all duration-300" 
-                style={{ width: `${uploadProgress}%` }}
+                className={`bg-primary-600 h-2.5 rounded-full transition-all duration-300 ${
+                  uploadPhase === 'preparing' || uploadPhase === 'processing' ? 'animate-pulse' : ''
+                }`}
+                style={{ width: `${uploadPhase === 'preparing' ? 0 : uploadProgress}%` }}
               ></div>
             </div>
-            {uploadComplete && (
+            {uploadPhase === 'complete' ? (
               <p className="mt-4 text-green-600 dark:text-green-400">
                 Analysis started. Redirecting to dashboard...
               </p>
+            ) : (
+              <button
+                type="button"
+                onClick={cancelUpload}
+                className="mt-4 px-4 py-2 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors duration-200"
+              >
+                Cancel
+              </button>
             )}
           </div>
         ) : (
@@ -457,15 +716,21 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
             
             <button 
               onClick={handleUpload}
-              disabled={!uploadedFile && selectedSample === null}
+              disabled={!canStartAnalysis}
               className={`px-8 py-3 rounded-lg font-medium text-white ${
-                !uploadedFile && selectedSample === null
+                !canStartAnalysis
                   ? 'bg-gray-400 dark:bg-gray-600 cursor-not-allowed'
                   : 'bg-primary-600 hover:bg-primary-700 dark:bg-primary-700 dark:hover:bg-primary-600'
               } transition-colors duration-200 shadow-lg hover:shadow-xl`}
             >
-              Start Analysis
+              {uploadSession ? 'Resume Upload' : 'Start Analysis'}
             </button>
+            
+            {uploadSession && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                {Math.round((uploadSession.nextChunk * uploadSession.chunkSize / uploadSession.file.size) * 100)}% already uploaded
+              </p>
+            )}
           </>
         )}
         
@@ -474,6 +739,12 @@ const Upload = ({ setCurrentDataset }: { setCurrentDataset: (data: any) => void
             Please upload a dataset or select a sample to continue
           </p>
         )}
+        
+        {uploadedFile && preparedDataset && hasBlockingIssues(preparedDataset) && !isUploading && (
+          <p className="mt-4 text-sm text-red-600 dark:text-red-400">
+            Resolve the problems shown in the preview, then upload the corrected file
+          </p>
+        )}
       </motion.div>
     </div>
   );
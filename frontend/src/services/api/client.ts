@@ -0,0 +1,113 @@
+import axios from 'axios';
+import type { AxiosAdapter, AxiosRequestConfig } from 'axios';
+import { toApiError } from './errors';
+import { mockAdapter } from './mockAdapter';
+
+export interface ApiClientOptions {
+  baseURL: string;
+  timeout?: number; // Per attempt, in ms
+  retries?: number; // Extra attempts after the first for retryable failures
+  retryDelay?: number; // Base delay for exponential backoff, in ms
+  adapter?: AxiosAdapter; // Swap the transport, e.g. for the mock backend
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  retries?: number;
+  headers?: Record<string, string>;
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+export interface ApiClient {
+  baseURL: string;
+  request: <T>(config: AxiosRequestConfig, options?: RequestOptions) => Promise<T>;
+  get: <T>(url: string, options?: RequestOptions) => Promise<T>;
+  post: <T>(url: string, body?: unknown, options?: RequestOptions) => Promise<T>;
+  put: <T>(url: string, body?: unknown, options?: RequestOptions) => Promise<T>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000;
+
+// Resolves after `ms`, or rejects straight away if the caller aborts
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new axios.CanceledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new axios.CanceledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Exponential backoff with jitter, unless the server said when to come back
+const backoffDelay = (attempt: number, baseDelay: number, retryAfterMs?: number) => {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  const delay = baseDelay * 2 ** attempt;
+  return Math.min(delay / 2 + Math.random() * delay / 2, MAX_RETRY_DELAY_MS);
+};
+
+export const createApiClient = ({
+  baseURL,
+  timeout = DEFAULT_TIMEOUT_MS,
+  retries = DEFAULT_RETRIES,
+  retryDelay = DEFAULT_RETRY_DELAY_MS,
+  adapter,
+}: ApiClientOptions): ApiClient => {
+  const http = axios.create({ baseURL, timeout, adapter });
+
+  const request = async <T>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<T> => {
+    const maxRetries = options.retries ?? retries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await http.request<T>({
+          ...config,
+          signal: options.signal,
+          timeout: options.timeout ?? timeout,
+          headers: { ...config.headers, ...options.headers },
+          onUploadProgress: options.onUploadProgress
+            ? event => options.onUploadProgress?.(event.loaded, event.total ?? event.loaded)
+            : undefined,
+        });
+        return response.data;
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (!apiError.retryable || attempt >= maxRetries || options.signal?.aborted) throw apiError;
+
+        try {
+          await wait(backoffDelay(attempt, retryDelay, apiError.retryAfterMs), options.signal);
+        } catch (waitError) {
+          throw toApiError(waitError);
+        }
+      }
+    }
+  };
+
+  return {
+    baseURL,
+    request,
+    get: (url, options) => request({ method: 'GET', url }, options),
+    post: (url, body, options) => request({ method: 'POST', url, data: body }, options),
+    put: (url, body, options) => request({ method: 'PUT', url, data: body }, options),
+  };
+};
+
+// API URL configuration - set VITE_API_URL for production, or VITE_API_MOCK=true to run without the backend
+export const API_URL: string = import.meta.env.VITE_API_URL || 'http://localhost:8000';
+export const USE_MOCK_API = import.meta.env.VITE_API_MOCK === 'true';
+
+// Client for the FastAPI prediction backend
+export const apiClient = createApiClient({
+  baseURL: API_URL,
+  adapter: USE_MOCK_API ? mockAdapter : undefined,
+});
@@ -0,0 +1,98 @@
+import axios from 'axios';
+import type { ApiErrorBody } from './types';
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'cancelled';
+
+// HTTP statuses worth retrying: the request may succeed if sent again later
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Every failed API call rejects with one of these instead of a bare Error
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly detail?: string;
+  readonly method?: string;
+  readonly url?: string;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown; // The underlying axios error, kept for debugging
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { status?: number; detail?: string; method?: string; url?: string; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = details.status;
+    this.detail = details.detail;
+    this.method = details.method;
+    this.url = details.url;
+    this.retryAfterMs = details.retryAfterMs;
+    this.cause = details.cause;
+  }
+
+  get retryable() {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    return this.kind === 'http' && this.status !== undefined && RETRYABLE_STATUSES.has(this.status);
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export const isCancelledError = (error: unknown) => isApiError(error) && error.kind === 'cancelled';
+
+// FastAPI puts a string in `detail`, or a list of field errors for 422s
+const readDetail = (data: unknown): string | undefined => {
+  if (typeof data === 'string') return data || undefined;
+  const detail = (data as ApiErrorBody | null)?.detail;
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    return detail.map(item => (item.loc ? `${item.loc.join('.')}: ${item.msg}` : item.msg)).join('; ');
+  }
+  return undefined;
+};
+
+const readRetryAfter = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Normalise whatever axios (or the mock adapter) threw into an ApiError
+export const toApiError = (error: unknown): ApiError => {
+  if (isApiError(error)) return error;
+
+  if (axios.isCancel(error)) {
+    return new ApiError('cancelled', 'Request cancelled', { cause: error });
+  }
+
+  if (!axios.isAxiosError(error)) {
+    return new ApiError('network', error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  const method = error.config?.method?.toUpperCase();
+  const url = error.config ? axios.getUri(error.config) : undefined;
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    const seconds = error.config?.timeout ? ` after ${error.config.timeout / 1000}s` : '';
+    return new ApiError('timeout', `Request to ${url} timed out${seconds}`, { method, url, cause: error });
+  }
+
+  if (!error.response) {
+    return new ApiError('network', `Could not reach ${url}`, { method, url, cause: error });
+  }
+
+  const { status, data, headers } = error.response;
+  const detail = readDetail(data);
+  return new ApiError('http', `Server responded with ${status}${detail ? `: ${detail}` : ''}`, {
+    status,
+    detail,
+    method,
+    url,
+    retryAfterMs: readRetryAfter(headers?.['retry-after']),
+    cause: error,
+  });
+};
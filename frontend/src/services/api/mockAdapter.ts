@@ -0,0 +1,145 @@
+// In-browser stand-in for the FastAPI backend, enabled with VITE_API_MOCK=true.
+// Scores rows against the AI4I 2020 failure rules so the dashboard gets realistic output.
+import { AxiosError, CanceledError } from 'axios';
+import type { AxiosAdapter, AxiosProgressEvent, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import Papa from 'papaparse';
+import type { CreateUploadRequest, CreateUploadResponse, PredictResponse, PredictionRecord, UploadChunkResponse } from './types';
+
+const LATENCY_MS = 300;
+const PROGRESS_STEPS = 5;
+
+// Chunks received per upload id, until the upload is completed
+const uploads = new Map<string, { fileName: string; threshold?: number; chunks: Blob[] }>();
+
+const OSF_LIMITS: Record<string, number> = { L: 11000, M: 12000, H: 13000 };
+
+// How far a row is towards each failure rule; 1 is exactly on the rule's limit
+const failureRatios = (row: Record<string, unknown>) => {
+  const air = Number(row['Air temperature [K]']);
+  const process = Number(row['Process temperature [K]']);
+  const speed = Number(row['Rotational speed [rpm]']);
+  const torque = Number(row['Torque [Nm]']);
+  const wear = Number(row['Tool wear [min]']);
+  const power = torque * speed * 2 * Math.PI / 60;
+
+  return {
+    TWF: wear / 200,
+    HDF: Math.min(8.6 / Math.max(process - air, 0.1), 1380 / speed),
+    PWF: Math.max(3500 / power, power / 9000),
+    OSF: wear * torque / (OSF_LIMITS[String(row.Type)] ?? OSF_LIMITS.M),
+  };
+};
+
+// Chance of a failure no rule explains
+const RANDOM_FAILURE_RATE = 0.001;
+
+// Logistic curve so a row on a rule's limit scores 0.5
+const toProbability = (ratio: number) => Number.isFinite(ratio) ? 1 / (1 + Math.exp(-(ratio - 1) * 12)) : 0;
+
+const predictFromCsv = async (file: Blob, threshold = 0.5): Promise<PredictResponse> => {
+  const { data } = Papa.parse<Record<string, string | number | boolean | null>>(await file.text(), {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: true,
+  });
+
+  return data.map(row => {
+    const ratios = failureRatios(row);
+    const modes = Object.entries(ratios)
+      .filter(([, ratio]) => toProbability(ratio) >= threshold)
+      .map(([mode]) => mode);
+    if (Math.random() < RANDOM_FAILURE_RATE) modes.push('RNF');
+
+    const probability = modes.includes('RNF') ? 1 : Number(toProbability(Math.max(...Object.values(ratios))).toFixed(4));
+    return {
+      ...row,
+      probability,
+      failure_modes: modes,
+      Prediction: probability >= threshold ? 'Failure' : 'No Failure',
+    } as PredictionRecord;
+  });
+};
+
+const delay = (ms: number, signal?: InternalAxiosRequestConfig['signal']) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CanceledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CanceledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener?.('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener?.('abort', onAbort, { once: true });
+});
+
+// Report upload progress in a few steps, the way a slow network would
+const simulateUpload = async (config: InternalAxiosRequestConfig, size: number) => {
+  for (let step = 1; step <= PROGRESS_STEPS; step++) {
+    await delay(LATENCY_MS / PROGRESS_STEPS, config.signal);
+    const loaded = Math.round(size * step / PROGRESS_STEPS);
+    config.onUploadProgress?.({
+      loaded,
+      total: size,
+      progress: step / PROGRESS_STEPS,
+      bytes: size / PROGRESS_STEPS,
+      upload: true,
+      lengthComputable: true,
+    } as AxiosProgressEvent);
+  }
+};
+
+const respond = <T>(config: InternalAxiosRequestConfig, status: number, data: T): AxiosResponse<T> => {
+  const response = { data, status, statusText: String(status), headers: {}, config, request: null };
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+  }
+  return response;
+};
+
+const readJson = <T>(data: unknown): T => (typeof data === 'string' ? JSON.parse(data) : data) as T;
+
+export const mockAdapter: AxiosAdapter = async config => {
+  const method = (config.method || 'get').toUpperCase();
+  const path = (config.url || '').split('?')[0];
+  let match: RegExpMatchArray | null;
+
+  if (method === 'POST' && path === '/predict') {
+    const file = config.data instanceof FormData ? config.data.get('file') : null;
+    if (!(file instanceof Blob)) return respond(config, 422, { detail: 'A CSV file is required in the "file" field' });
+    await simulateUpload(config, file.size);
+    const threshold = Number(config.data.get('threshold')) || undefined;
+    return respond(config, 200, await predictFromCsv(file, threshold));
+  }
+
+  if (method === 'POST' && path === '/predict/uploads') {
+    const body = readJson<CreateUploadRequest>(config.data);
+    const uploadId = `mock-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    uploads.set(uploadId, { fileName: body.file_name, threshold: body.threshold, chunks: [] });
+    await delay(LATENCY_MS, config.signal);
+    return respond<CreateUploadResponse>(config, 201, { upload_id: uploadId });
+  }
+
+  if (method === 'PUT' && (match = path.match(/^\/predict\/uploads\/([^/]+)\/chunks\/(\d+)$/))) {
+    const upload = uploads.get(decodeURIComponent(match[1]));
+    if (!upload) return respond(config, 404, { detail: 'Unknown upload' });
+    const chunk = config.data instanceof Blob ? config.data : new Blob([config.data]);
+    await simulateUpload(config, chunk.size);
+    upload.chunks[Number(match[2])] = chunk;
+    return respond<UploadChunkResponse>(config, 200, { received: chunk.size });
+  }
+
+  if (method === 'POST' && (match = path.match(/^\/predict\/uploads\/([^/]+)\/complete$/))) {
+    const uploadId = decodeURIComponent(match[1]);
+    const upload = uploads.get(uploadId);
+    if (!upload) return respond(config, 404, { detail: 'Unknown upload' });
+    uploads.delete(uploadId);
+    await delay(LATENCY_MS, config.signal);
+    return respond(config, 200, await predictFromCsv(new Blob(upload.chunks), upload.threshold));
+  }
+
+  return respond(config, 404, { detail: `No mock route for ${method} ${path}` });
+};
@@ -0,0 +1,135 @@
+import { apiClient, USE_MOCK_API } from './client';
+import { ApiError } from './errors';
+import type { CreateUploadRequest, CreateUploadResponse, PredictOptions, PredictResponse, UploadChunkResponse } from './types';
+
+// Chunked uploads need the resumable upload endpoints below, which a backend that only has
+// POST /predict lacks, so they are opt-in. The mock API implements them.
+export const CHUNKED_UPLOADS_ENABLED = import.meta.env.VITE_CHUNKED_UPLOADS === 'true' || USE_MOCK_API;
+// Files above this size are sent in chunks when chunked uploads are enabled
+export const CHUNKED_UPLOAD_THRESHOLD = 10 * 1024 * 1024;
+const CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Uploads can legitimately take minutes; the default client timeout is for small requests
+const UPLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+const CHUNK_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface UploadProgress {
+  phase: 'uploading' | 'processing';
+  loaded: number;
+  total: number;
+}
+
+// Where a chunked upload got to, so a failed upload can continue instead of restarting
+export interface ChunkedUploadSession {
+  uploadId: string;
+  file: File;
+  chunkSize: number;
+  nextChunk: number;
+}
+
+interface UploadOptions {
+  options?: PredictOptions;
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  onSession?: (session: ChunkedUploadSession) => void;
+  session?: ChunkedUploadSession | null;
+}
+
+// Resumable upload contract expected from the server:
+//   POST /predict/uploads                      JSON CreateUploadRequest (the analysis options plus
+//                                              file_name, size, chunk_size) -> { upload_id }
+//   PUT  /predict/uploads/{id}/chunks/{index}  raw bytes with a Content-Range header; idempotent,
+//                                              so a chunk may arrive more than once -> UploadChunkResponse
+//   POST /predict/uploads/{id}/complete        runs the model on the assembled file -> PredictResponse
+const uploadPath = (uploadId: string) => `/predict/uploads/${encodeURIComponent(uploadId)}`;
+
+// POST /predict with the whole file. Not retried: the backend may already be running the model.
+export const predict = (file: File, { options, signal, onProgress }: UploadOptions = {}) => {
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(options || {}).forEach(([name, value]) => formData.append(name, String(value)));
+
+  return apiClient.post<PredictResponse>('/predict', formData, {
+    signal,
+    retries: 0,
+    timeout: UPLOAD_TIMEOUT_MS,
+    onUploadProgress: (loaded, total) => {
+      onProgress?.({ phase: loaded >= total ? 'processing' : 'uploading', loaded, total });
+    },
+  });
+};
+
+export const createUpload = (body: CreateUploadRequest, signal?: AbortSignal) =>
+  apiClient.post<CreateUploadResponse>('/predict/uploads', body, { signal });
+
+// Chunks are idempotent, so the client's retry with backoff applies
+export const uploadChunk = (
+  uploadId: string,
+  index: number,
+  chunk: Blob,
+  { signal, start, size, onUploadProgress }: {
+    signal?: AbortSignal;
+    start: number;
+    size: number;
+    onUploadProgress?: (loaded: number) => void;
+  }
+) => apiClient.put<UploadChunkResponse>(`${uploadPath(uploadId)}/chunks/${index}`, chunk, {
+  signal,
+  timeout: CHUNK_TIMEOUT_MS,
+  headers: {
+    'Content-Type': 'application/octet-stream',
+    'Content-Range': `bytes ${start}-${start + chunk.size - 1}/${size}`,
+  },
+  onUploadProgress: loaded => onUploadProgress?.(loaded),
+});
+
+export const completeUpload = (uploadId: string, signal?: AbortSignal) =>
+  apiClient.post<PredictResponse>(`${uploadPath(uploadId)}/complete`, undefined, {
+    signal,
+    retries: 0,
+    timeout: UPLOAD_TIMEOUT_MS,
+  });
+
+const uploadChunked = async (file: File, { options, signal, onProgress, onSession, session }: UploadOptions) => {
+  let current = session && session.file === file ? session : null;
+
+  if (!current) {
+    let created: CreateUploadResponse;
+    try {
+      created = await createUpload({ ...options, file_name: file.name, size: file.size, chunk_size: CHUNK_SIZE }, signal);
+    } catch (error) {
+      // The backend has no resumable upload endpoints; send the whole file instead
+      if (error instanceof ApiError && (error.status === 404 || error.status === 405)) {
+        return predict(file, { options, signal, onProgress });
+      }
+      throw error;
+    }
+    current = { uploadId: created.upload_id, file, chunkSize: CHUNK_SIZE, nextChunk: 0 };
+    onSession?.(current);
+  }
+
+  const { uploadId, chunkSize } = current;
+  const chunkCount = Math.ceil(file.size / chunkSize);
+
+  for (let index = current.nextChunk; index < chunkCount; index++) {
+    const start = index * chunkSize;
+    const chunk = file.slice(start, Math.min(start + chunkSize, file.size));
+
+    await uploadChunk(uploadId, index, chunk, {
+      signal,
+      start,
+      size: file.size,
+      onUploadProgress: loaded => onProgress?.({ phase: 'uploading', loaded: start + loaded, total: file.size }),
+    });
+
+    current = { ...current, nextChunk: index + 1 };
+    onSession?.(current);
+  }
+
+  onProgress?.({ phase: 'processing', loaded: file.size, total: file.size });
+  return completeUpload(uploadId, signal);
+};
+
+// Send a dataset for prediction, chunking large files when enabled, and resolve with the predictions
+export const uploadForPrediction = (file: File, options: UploadOptions = {}): Promise<PredictResponse> =>
+  CHUNKED_UPLOADS_ENABLED && file.size > CHUNKED_UPLOAD_THRESHOLD ? uploadChunked(file, options) : predict(file, options);
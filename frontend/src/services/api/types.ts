@@ -0,0 +1,48 @@
+// Request and response shapes for the FastAPI prediction backend
+
+// One row returned by /predict: the submitted features plus the model output
+export interface PredictionRecord {
+  Type: string;
+  "Air temperature [K]": number;
+  "Process temperature [K]": number;
+  "Rotational speed [rpm]": number;
+  "Torque [Nm]": number;
+  "Tool wear [min]": number;
+  Prediction: string;
+  timestamp?: string; // ISO time, added by the column mapping when the source has one
+  probability?: number; // Failure probability (0-1), when the model reports one
+  failure_modes?: string[]; // Predicted AI4I failure modes (TWF, HDF, PWF, OSF, RNF)
+  attributions?: Record<string, number>; // Per-feature SHAP values; positive pushes toward failure
+  [key: string]: string | number | boolean | string[] | Record<string, number> | null | undefined; // Any additional columns from the upload
+}
+
+export type PredictResponse = PredictionRecord[];
+
+// Analysis settings sent as form fields with /predict, and in the body that starts a chunked upload
+export interface PredictOptions {
+  sensitivity: 'low' | 'medium' | 'high' | 'custom';
+  analysis_type: 'all' | 'univariate' | 'multivariate' | 'correlation';
+  report_detail: 'basic' | 'standard' | 'detailed' | 'comprehensive';
+  threshold: number; // Failure probability cut-off implied by the sensitivity
+}
+
+// POST /predict/uploads - starts a chunked upload
+export interface CreateUploadRequest extends Partial<PredictOptions> {
+  file_name: string;
+  size: number;
+  chunk_size: number;
+}
+
+export interface CreateUploadResponse {
+  upload_id: string;
+}
+
+// PUT /predict/uploads/{upload_id}/chunks/{index}
+export interface UploadChunkResponse {
+  received: number;
+}
+
+// Error body FastAPI sends for HTTPException and validation failures
+export interface ApiErrorBody {
+  detail?: string | { msg: string; loc?: (string | number)[] }[];
+}
@@ -0,0 +1,85 @@
+// Exports work orders to a maintenance management system (CMMS). Each adapter handles
+// one kind of target; add an entry to CMMS_ADAPTERS to support another.
+import { createApiClient } from './api/client';
+import type { CmmsAdapterKind, CmmsConfig, WorkOrder } from '../types/workOrders';
+import { downloadBlob, exportRows } from '../utils/exportResults';
+import { workOrdersToRows } from '../utils/workOrders';
+
+export interface CmmsExportResult {
+  exportedIds: string[];
+  externalIds: Record<string, string>; // Work order id -> id the CMMS gave it
+  message: string;
+}
+
+export interface CmmsAdapter {
+  label: string;
+  description: string;
+  needsEndpoint: boolean;
+  exportWorkOrders: (orders: WorkOrder[], config: CmmsConfig, signal?: AbortSignal) => Promise<CmmsExportResult>;
+}
+
+// Not retried: a CMMS that timed out may still have created the work order
+const cmmsClient = createApiClient({ baseURL: '', retries: 0 });
+
+// JSON sent for each work order; the snapshot goes along as an attachment
+const toCmmsPayload = (order: WorkOrder) => {
+  const payload: Partial<WorkOrder> = { ...order };
+  delete payload.chartSnapshot;
+  return {
+    ...payload,
+    attachments: [{ name: `${order.id}-chart.svg`, contentType: 'image/svg+xml', url: order.chartSnapshot }],
+  };
+};
+
+// POSTs each work order to the endpoint and keeps the id from the response, if any
+const restAdapter: CmmsAdapter = {
+  label: 'REST API',
+  description: 'POST each work order as JSON to the endpoint',
+  needsEndpoint: true,
+  exportWorkOrders: async (orders, config, signal) => {
+    if (!config.url) throw new Error('Set the CMMS endpoint URL first');
+    const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+    const exportedIds: string[] = [];
+    const externalIds: Record<string, string> = {};
+    const failures: string[] = [];
+
+    for (const order of orders) {
+      try {
+        const response = await cmmsClient.post<{ id?: string | number } | null>(config.url, toCmmsPayload(order), { signal, headers });
+        exportedIds.push(order.id);
+        if (response?.id !== undefined) externalIds[order.id] = String(response.id);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        failures.push(`${order.id}: ${error instanceof Error ? error.message : 'failed'}`);
+      }
+    }
+
+    if (exportedIds.length === 0 && failures.length > 0) throw new Error(failures[0]);
+    return {
+      exportedIds,
+      externalIds,
+      message: `Exported ${exportedIds.length} of ${orders.length} work orders${failures.length > 0 ? `. Failed: ${failures.join('; ')}` : ''}`,
+    };
+  },
+};
+
+// Downloads a CSV for CMMS tools that import files
+const csvAdapter: CmmsAdapter = {
+  label: 'CSV file',
+  description: 'Download a CSV to import into the CMMS',
+  needsEndpoint: false,
+  exportWorkOrders: async (orders) => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    downloadBlob(exportRows(workOrdersToRows(orders), 'csv'), `work-orders-${stamp}.csv`);
+    return {
+      exportedIds: orders.map(order => order.id),
+      externalIds: {},
+      message: `Downloaded ${orders.length} work orders as CSV`,
+    };
+  },
+};
+
+export const CMMS_ADAPTERS: Record<CmmsAdapterKind, CmmsAdapter> = {
+  csv: csvAdapter,
+  rest: restAdapter,
+};
@@ -0,0 +1,132 @@
+// Delivers alerts to the configured outbound channels. Every channel is a plain HTTP POST,
+// so `npm run mock:notifications` is enough to try them locally. Slack and Teams don't
+// accept requests straight from a browser; point those channels at a relay in production.
+import { createApiClient } from './api/client';
+import { ALERT_SEVERITIES } from '../types/alerts';
+import type { AlertSeverity } from '../types/alerts';
+import type { AlertMessage, DeliveryLog, NotificationChannel } from '../types/notifications';
+
+// A slow endpoint shouldn't hold deliveries up for long
+const DELIVERY_TIMEOUT_MS = 10000;
+const RATE_WINDOW_MS = 60000;
+
+// Not retried: a timed-out endpoint may still have posted the message, and a retry would
+// skip the channel's rate limit
+const notificationClient = createApiClient({ baseURL: '', timeout: DELIVERY_TIMEOUT_MS, retries: 0 });
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '3B82F6',
+  warning: 'F59E0B',
+  critical: 'EF4444',
+};
+
+// Send times per channel within the last minute, shared by every dashboard
+const recentDeliveries = new Map<string, number[]>();
+let deliveryCount = 0;
+
+const takeRateLimitSlot = (channel: NotificationChannel, now: number) => {
+  const recent = (recentDeliveries.get(channel.id) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  const allowed = recent.length < channel.maxPerMinute;
+  if (allowed) recent.push(now);
+  recentDeliveries.set(channel.id, recent);
+  return allowed;
+};
+
+export const shouldDeliver = (channel: NotificationChannel, severity: AlertSeverity) =>
+  channel.enabled && ALERT_SEVERITIES.indexOf(severity) >= ALERT_SEVERITIES.indexOf(channel.minSeverity);
+
+// Fills {{field}} placeholders with JSON-escaped values, so they're safe inside quoted strings
+export const renderTemplate = (template: string, message: AlertMessage) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, field: string) =>
+    field in message ? JSON.stringify(String(message[field as keyof AlertMessage])).slice(1, -1) : placeholder
+  );
+
+const describeSource = (message: AlertMessage) => [
+  `Source: ${message.source}`,
+  ...(message.parameter ? [`Parameter: ${message.parameter}`] : []),
+  `Raised: ${new Date(message.createdAt).toLocaleString()}`,
+];
+
+export const buildPayload = (channel: NotificationChannel, message: AlertMessage): unknown => {
+  const heading = `[${message.severity.toUpperCase()}] ${message.title}`;
+
+  switch (channel.kind) {
+    case 'webhook':
+      try {
+        return JSON.parse(renderTemplate(channel.bodyTemplate, message));
+      } catch (error) {
+        throw new Error(`The body template isn't valid JSON once filled in: ${error instanceof Error ? error.message : error}`);
+      }
+
+    case 'chat':
+      if (channel.format === 'slack') {
+        return { text: `*${heading}*\n${message.message}\n_${describeSource(message).join(' · ')}_` };
+      }
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: message.title,
+        themeColor: SEVERITY_COLORS[message.severity],
+        title: heading,
+        text: message.message,
+        sections: [{
+          facts: describeSource(message).map(line => {
+            const [name, ...value] = line.split(': ');
+            return { name, value: value.join(': ') };
+          }),
+        }],
+      };
+
+    case 'email':
+      return {
+        from: channel.from,
+        to: channel.to,
+        subject: heading,
+        text: [message.message, '', ...describeSource(message)].join('\n'),
+      };
+  }
+};
+
+export const createTestMessage = (): AlertMessage => ({
+  id: `test-${Date.now()}`,
+  title: 'Test alert',
+  message: 'This is a test delivery from AnomalyDetect.',
+  severity: 'info',
+  parameter: '',
+  createdAt: new Date().toISOString(),
+  source: 'AnomalyDetect',
+});
+
+// Sends one alert to one channel and resolves with the log entry; never rejects.
+// Test sends skip the rate limit so a channel can always be checked.
+export const deliverToChannel = async (
+  channel: NotificationChannel,
+  message: AlertMessage,
+  isTest = false
+): Promise<DeliveryLog> => {
+  const log = {
+    id: `delivery-${Date.now()}-${++deliveryCount}`,
+    channelId: channel.id,
+    channelName: channel.name,
+    alertTitle: message.title,
+    isTest,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (!isTest && !takeRateLimitSlot(channel, Date.now())) {
+    return { ...log, status: 'rateLimited', error: `Over the limit of ${channel.maxPerMinute} per minute` };
+  }
+
+  const started = performance.now();
+  try {
+    await notificationClient.post(channel.url, buildPayload(channel, message));
+    return { ...log, status: 'sent', durationMs: Math.round(performance.now() - started) };
+  } catch (error) {
+    return {
+      ...log,
+      status: 'failed',
+      durationMs: Math.round(performance.now() - started),
+      error: error instanceof Error ? error.message : 'Delivery failed',
+    };
+  }
+};
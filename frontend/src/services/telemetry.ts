@@ -0,0 +1,208 @@
+import mqtt from 'mqtt';
+import { createApiClient } from './api/client';
+
+export type DeviceProtocol = 'ws' | 'mqtt';
+
+export interface Device {
+  id: string;
+  name: string;
+  type: string;
+  status: 'available' | 'connected' | 'error';
+  protocol: DeviceProtocol;
+  url?: string; // Stream URL, derived from the gateway when omitted
+  topic?: string; // MQTT topic, only used when protocol is 'mqtt'
+}
+
+export interface TelemetryReading {
+  deviceId: string;
+  timestamp: string;
+  parameter: string;
+  value: number;
+  normalRange?: { min: number; max: number };
+}
+
+export interface TelemetryConnection {
+  device: Device;
+  subscribe: (listener: (reading: TelemetryReading) => void) => () => void;
+  onClose: (listener: () => void) => () => void;
+  close: () => void;
+}
+
+// Shape of a single message pushed by the gateway (or published on the MQTT topic)
+interface TelemetryMessage {
+  deviceId?: string;
+  timestamp?: string;
+  readings: Record<string, number>;
+  normalRanges?: Record<string, { min: number; max: number }>;
+}
+
+// Gateway configuration - devices are discovered from `${GATEWAY_URL}/devices`
+const GATEWAY_URL: string = import.meta.env.VITE_GATEWAY_URL || 'http://localhost:8080';
+const MQTT_URL: string = import.meta.env.VITE_MQTT_URL || 'ws://localhost:9001';
+const CONNECT_TIMEOUT_MS = 10000;
+
+const gatewayClient = createApiClient({ baseURL: GATEWAY_URL, timeout: CONNECT_TIMEOUT_MS });
+
+// Fetch the list of devices the gateway currently exposes
+export const discoverDevices = async (signal?: AbortSignal): Promise<Device[]> => {
+  const devices = await gatewayClient.get<Partial<Device>[]>('/devices', { signal });
+
+  return devices
+    .filter(device => typeof device.id === 'string')
+    .map(device => ({
+      id: device.id as string,
+      name: device.name || (device.id as string),
+      type: device.type || 'sensor',
+      status: device.status || 'available',
+      protocol: device.protocol === 'mqtt' ? 'mqtt' : 'ws',
+      url: device.url,
+      topic: device.topic,
+    }));
+};
+
+// Turn one raw message into per-parameter readings, dropping anything non-numeric
+export const parseTelemetryMessage = (deviceId: string, payload: string): TelemetryReading[] => {
+  let message: TelemetryMessage;
+
+  try {
+    message = JSON.parse(payload);
+  } catch {
+    console.warn(`Ignoring malformed telemetry message from ${deviceId}`);
+    return [];
+  }
+
+  if (!message || typeof message.readings !== 'object') return [];
+
+  const timestamp = message.timestamp || new Date().toISOString();
+
+  return Object.entries(message.readings)
+    .filter(([, value]) => typeof value === 'number' && Number.isFinite(value))
+    .map(([parameter, value]) => ({
+      deviceId: message.deviceId || deviceId,
+      timestamp,
+      parameter,
+      value,
+      normalRange: message.normalRanges?.[parameter],
+    }));
+};
+
+// Shared listener bookkeeping for both transports
+const createConnection = (device: Device, close: () => void) => {
+  const readingListeners = new Set<(reading: TelemetryReading) => void>();
+  const closeListeners = new Set<() => void>();
+
+  const connection: TelemetryConnection = {
+    device,
+    subscribe: listener => {
+      readingListeners.add(listener);
+      return () => {
+        readingListeners.delete(listener);
+      };
+    },
+    onClose: listener => {
+      closeListeners.add(listener);
+      return () => {
+        closeListeners.delete(listener);
+      };
+    },
+    close,
+  };
+
+  const emit = (payload: string) => {
+    parseTelemetryMessage(device.id, payload).forEach(reading => {
+      readingListeners.forEach(listener => listener(reading));
+    });
+  };
+
+  const emitClose = () => {
+    closeListeners.forEach(listener => listener());
+    readingListeners.clear();
+    closeListeners.clear();
+  };
+
+  return { connection, emit, emitClose };
+};
+
+const openWebSocket = (device: Device): Promise<TelemetryConnection> => {
+  const url = device.url || `${GATEWAY_URL.replace(/^http/, 'ws')}/devices/${encodeURIComponent(device.id)}/stream`;
+
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const { connection, emit, emitClose } = createConnection(device, () => socket.close());
+    let isOpen = false;
+
+    const timeout = window.setTimeout(() => {
+      socket.close();
+      reject(new Error(`Timed out connecting to ${device.name}`));
+    }, CONNECT_TIMEOUT_MS);
+
+    socket.onopen = () => {
+      isOpen = true;
+      window.clearTimeout(timeout);
+      resolve(connection);
+    };
+
+    socket.onmessage = event => {
+      if (typeof event.data === 'string') emit(event.data);
+    };
+
+    socket.onerror = () => {
+      if (!isOpen) {
+        window.clearTimeout(timeout);
+        reject(new Error(`Could not open a WebSocket to ${url}`));
+      }
+    };
+
+    socket.onclose = () => {
+      if (isOpen) emitClose();
+    };
+  });
+};
+
+const openMqtt = (device: Device): Promise<TelemetryConnection> => {
+  const url = device.url || MQTT_URL;
+  const topic = device.topic || `devices/${device.id}/telemetry`;
+
+  return new Promise((resolve, reject) => {
+    const client = mqtt.connect(url, {
+      connectTimeout: CONNECT_TIMEOUT_MS,
+      reconnectPeriod: 0,
+    });
+    const { connection, emit, emitClose } = createConnection(device, () => client.end());
+    let isOpen = false;
+
+    client.on('connect', () => {
+      client.subscribe(topic, error => {
+        if (error) {
+          client.end();
+          reject(new Error(`Could not subscribe to ${topic}: ${error.message}`));
+          return;
+        }
+        isOpen = true;
+        resolve(connection);
+      });
+    });
+
+    client.on('message', (_topic, payload) => emit(payload.toString()));
+
+    client.on('error', error => {
+      if (!isOpen) {
+        client.end();
+        reject(new Error(`Could not connect to MQTT broker at ${url}: ${error.message}`));
+      }
+    });
+
+    client.on('close', () => {
+      if (isOpen) {
+        isOpen = false;
+        emitClose();
+      } else {
+        reject(new Error(`MQTT broker at ${url} closed the connection`));
+      }
+    });
+  });
+};
+
+// Open a streaming connection to a device using the transport it advertises
+export const connectToDevice = (device: Device): Promise<TelemetryConnection> =>
+  device.protocol === 'mqtt' ? openMqtt(device) : openWebSocket(device);
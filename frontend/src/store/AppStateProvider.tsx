@@ -0,0 +1,92 @@
+import { useEffect, useReducer } from 'react';
+import type { ReactNode } from 'react';
+import { AppDispatchContext, AppStateContext, appReducer, initialAppState, toPersistedState } from './appState';
+import { getDataset, loadPersistedState, savePersistedState } from './persistence';
+
+const AppStateProvider = ({ children }: { children: ReactNode }) => {
+  const [state, dispatch] = useReducer(appReducer, initialAppState);
+  const {
+    hydrated,
+    currentDataset,
+    connection,
+    analysisOptions,
+    normalRanges,
+    alerts,
+    alertRules,
+    browserNotifications,
+    notificationChannels,
+    deliveryLogs,
+    workOrders,
+    cmmsConfig,
+    driftBaseline,
+  } = state;
+
+  // Restore the last session; storage failures just start with a clean state
+  useEffect(() => {
+    let cancelled = false;
+
+    const hydrate = async () => {
+      try {
+        const persisted = await loadPersistedState();
+        const dataset = persisted?.currentDatasetId ? await getDataset(persisted.currentDatasetId) : undefined;
+        if (!cancelled) dispatch({ type: 'hydrate', currentDataset: dataset || null, persisted: persisted || null });
+      } catch (error) {
+        console.error('Could not restore saved state:', error);
+        if (!cancelled) dispatch({ type: 'hydrate', currentDataset: null, persisted: null });
+      }
+    };
+
+    hydrate();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Writes wait for hydration so the defaults never overwrite what was stored. Datasets are
+  // saved to the library by the page that creates them; only the open one's id is kept here.
+  useEffect(() => {
+    if (!hydrated) return;
+    savePersistedState(toPersistedState({
+      currentDataset,
+      analysisOptions,
+      normalRanges,
+      alerts,
+      alertRules,
+      browserNotifications,
+      notificationChannels,
+      deliveryLogs,
+      workOrders,
+      cmmsConfig,
+      driftBaseline,
+    })).catch(error => console.error('Could not save state:', error));
+  }, [
+    hydrated,
+    currentDataset,
+    analysisOptions,
+    normalRanges,
+    alerts,
+    alertRules,
+    browserNotifications,
+    notificationChannels,
+    deliveryLogs,
+    workOrders,
+    cmmsConfig,
+    driftBaseline,
+  ]);
+
+  // Drop the connection if the gateway or broker closes the stream
+  useEffect(() => {
+    if (!connection) return;
+    return connection.onClose(() => dispatch({ type: 'setConnection', connection: null }));
+  }, [connection]);
+
+  return (
+    <AppStateContext.Provider value={state}>
+      <AppDispatchContext.Provider value={dispatch}>
+        {children}
+      </AppDispatchContext.Provider>
+    </AppStateContext.Provider>
+  );
+};
+
+export default AppStateProvider;
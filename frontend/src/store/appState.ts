@@ -0,0 +1,334 @@
+import { createContext, useContext } from 'react';
+import type { Dispatch } from 'react';
+import type { TelemetryConnection } from '../services/telemetry';
+import type { Dataset } from '../types/dataset';
+import { DEFAULT_ANALYSIS_OPTIONS } from '../types/analysis';
+import type { AnalysisOptions } from '../types/analysis';
+import { DEFAULT_NORMAL_RANGE_CONFIG } from '../types/normalRanges';
+import type { NormalRange, NormalRangeConfig } from '../types/normalRanges';
+import { DEFAULT_ALERT_RULES } from '../types/alerts';
+import type { AlertNote, AlertRule, AlertSeverity, AlertState } from '../types/alerts';
+import type { DeliveryLog, NotificationChannel } from '../types/notifications';
+import { DEFAULT_CMMS_CONFIG } from '../types/workOrders';
+import type { CmmsConfig, WorkOrder, WorkOrderStatus } from '../types/workOrders';
+import { AI4I_BASELINE } from '../types/drift';
+import type { BaselineProfile } from '../types/drift';
+
+export interface Alert {
+  id: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  createdAt: string;
+  read: boolean;
+  state: AlertState;
+  snoozedUntil?: string;
+  notes: AlertNote[];
+  ruleId?: string; // The rule that raised it
+  parameter?: string;
+  recordIndex?: number; // Dataset record that triggered it
+  datasetId?: string;
+  deviceId?: string;
+}
+
+export interface AppState {
+  hydrated: boolean; // False until the persisted state has been read back
+  currentDataset: Dataset | null;
+  connection: TelemetryConnection | null; // Live socket, never persisted
+  analysisOptions: AnalysisOptions;
+  normalRanges: NormalRangeConfig;
+  alerts: Alert[];
+  alertRules: AlertRule[];
+  browserNotifications: boolean; // Also show new alerts as system notifications
+  notificationChannels: NotificationChannel[];
+  deliveryLogs: DeliveryLog[]; // Newest first
+  workOrders: WorkOrder[]; // Newest first
+  cmmsConfig: CmmsConfig;
+  driftBaseline: BaselineProfile; // What uploads are checked for drift against
+}
+
+// The part of the state written to IndexedDB; the dataset itself is stored by id
+export interface PersistedAppState {
+  currentDatasetId: string | null;
+  analysisOptions: AnalysisOptions;
+  normalRanges: NormalRangeConfig;
+  alerts: Alert[];
+  alertRules: AlertRule[];
+  browserNotifications: boolean;
+  notificationChannels: NotificationChannel[];
+  deliveryLogs: DeliveryLog[];
+  workOrders: WorkOrder[];
+  cmmsConfig: CmmsConfig;
+  driftBaseline: BaselineProfile;
+}
+
+export type AppAction =
+  | { type: 'hydrate'; currentDataset: Dataset | null; persisted: Partial<PersistedAppState> | null }
+  | { type: 'setCurrentDataset'; dataset: Dataset | null }
+  | { type: 'datasetUpdated'; id: string; changes: Partial<Pick<Dataset, 'name' | 'tags'>> }
+  | { type: 'datasetDeleted'; id: string }
+  | { type: 'setConnection'; connection: TelemetryConnection | null }
+  | { type: 'setAnalysisOptions'; options: Partial<AnalysisOptions> }
+  | { type: 'setNormalRangeConfig'; config: Partial<Omit<NormalRangeConfig, 'overrides'>> }
+  | { type: 'setNormalRangeOverride'; parameter: string; range: NormalRange | null }
+  | { type: 'addAlert'; alert: Alert }
+  | { type: 'markAlertRead'; id: string }
+  | { type: 'markAllAlertsRead' }
+  | { type: 'setAlertState'; id: string; state: AlertState; snoozedUntil?: string; note?: string }
+  | { type: 'addAlertNote'; id: string; note: string }
+  | { type: 'dismissAlert'; id: string }
+  | { type: 'clearAlerts' }
+  | { type: 'saveAlertRule'; rule: AlertRule }
+  | { type: 'deleteAlertRule'; id: string }
+  | { type: 'setBrowserNotifications'; enabled: boolean }
+  | { type: 'saveNotificationChannel'; channel: NotificationChannel }
+  | { type: 'deleteNotificationChannel'; id: string }
+  | { type: 'addDeliveryLog'; log: DeliveryLog }
+  | { type: 'clearDeliveryLogs' }
+  | { type: 'addWorkOrder'; workOrder: WorkOrder }
+  | { type: 'updateWorkOrder'; id: string; changes: Partial<Pick<WorkOrder, 'title' | 'description' | 'priority' | 'assignee'>> }
+  | { type: 'setWorkOrderStatus'; id: string; status: WorkOrderStatus; note?: string }
+  | { type: 'workOrdersExported'; ids: string[]; externalIds: Record<string, string>; exportedAt: string }
+  | { type: 'deleteWorkOrder'; id: string }
+  | { type: 'setCmmsConfig'; config: Partial<CmmsConfig> }
+  | { type: 'setDriftBaseline'; baseline: BaselineProfile | null }; // Null goes back to the built-in profile
+
+// Oldest alerts are dropped beyond this so the persisted record stays small
+const MAX_ALERTS = 200;
+const MAX_DELIVERY_LOGS = 200;
+
+export const initialAppState: AppState = {
+  hydrated: false,
+  currentDataset: null,
+  connection: null,
+  analysisOptions: DEFAULT_ANALYSIS_OPTIONS,
+  normalRanges: DEFAULT_NORMAL_RANGE_CONFIG,
+  alerts: [],
+  alertRules: DEFAULT_ALERT_RULES,
+  browserNotifications: false,
+  notificationChannels: [],
+  deliveryLogs: [],
+  workOrders: [],
+  cmmsConfig: DEFAULT_CMMS_CONFIG,
+  driftBaseline: AI4I_BASELINE,
+};
+
+// Alerts saved before the acknowledgement workflow have no state or notes
+const normalizeAlert = (alert: Alert): Alert => ({
+  ...alert,
+  state: alert.state || (alert.read ? 'acknowledged' : 'open'),
+  notes: alert.notes || [],
+});
+
+const addNote = (alert: Alert, text: string | undefined): AlertNote[] =>
+  text?.trim() ? [...alert.notes, { text: text.trim(), createdAt: new Date().toISOString() }] : alert.notes;
+
+export const appReducer = (state: AppState, action: AppAction): AppState => {
+  switch (action.type) {
+    case 'hydrate':
+      // A dataset or alerts produced before the stored state finished loading are kept
+      return {
+        ...state,
+        hydrated: true,
+        currentDataset: state.currentDataset || action.currentDataset,
+        analysisOptions: { ...DEFAULT_ANALYSIS_OPTIONS, ...action.persisted?.analysisOptions },
+        normalRanges: { ...DEFAULT_NORMAL_RANGE_CONFIG, ...action.persisted?.normalRanges },
+        alerts: [...state.alerts, ...(action.persisted?.alerts || []).map(normalizeAlert)].slice(0, MAX_ALERTS),
+        alertRules: action.persisted?.alertRules || state.alertRules,
+        browserNotifications: action.persisted?.browserNotifications ?? state.browserNotifications,
+        notificationChannels: action.persisted?.notificationChannels || state.notificationChannels,
+        deliveryLogs: [...state.deliveryLogs, ...(action.persisted?.deliveryLogs || [])].slice(0, MAX_DELIVERY_LOGS),
+        workOrders: [...state.workOrders, ...(action.persisted?.workOrders || [])],
+        cmmsConfig: { ...DEFAULT_CMMS_CONFIG, ...action.persisted?.cmmsConfig },
+        driftBaseline: action.persisted?.driftBaseline || state.driftBaseline,
+      };
+
+    case 'setCurrentDataset':
+      return { ...state, currentDataset: action.dataset };
+
+    // Keep the open dataset in step with edits made in the dataset library
+    case 'datasetUpdated':
+      if (state.currentDataset?.id !== action.id) return state;
+      return { ...state, currentDataset: { ...state.currentDataset, ...action.changes } };
+
+    case 'datasetDeleted':
+      if (state.currentDataset?.id !== action.id) return state;
+      return { ...state, currentDataset: null };
+
+    case 'setConnection':
+      return { ...state, connection: action.connection };
+
+    case 'setAnalysisOptions':
+      return { ...state, analysisOptions: { ...state.analysisOptions, ...action.options } };
+
+    case 'setNormalRangeConfig':
+      return { ...state, normalRanges: { ...state.normalRanges, ...action.config } };
+
+    // A null range goes back to the learned band
+    case 'setNormalRangeOverride': {
+      const overrides = { ...state.normalRanges.overrides };
+      if (action.range) {
+        overrides[action.parameter] = action.range;
+      } else {
+        delete overrides[action.parameter];
+      }
+      return { ...state, normalRanges: { ...state.normalRanges, overrides } };
+    }
+
+    case 'addAlert':
+      return { ...state, alerts: [action.alert, ...state.alerts].slice(0, MAX_ALERTS) };
+
+    case 'markAlertRead':
+      return {
+        ...state,
+        alerts: state.alerts.map(alert => alert.id === action.id ? { ...alert, read: true } : alert),
+      };
+
+    case 'markAllAlertsRead':
+      return { ...state, alerts: state.alerts.map(alert => alert.read ? alert : { ...alert, read: true }) };
+
+    // Acknowledging, snoozing or resolving also marks the alert read
+    case 'setAlertState':
+      return {
+        ...state,
+        alerts: state.alerts.map(alert => alert.id === action.id
+          ? {
+              ...alert,
+              read: true,
+              state: action.state,
+              snoozedUntil: action.state === 'snoozed' ? action.snoozedUntil : undefined,
+              notes: addNote(alert, action.note),
+            }
+          : alert),
+      };
+
+    case 'addAlertNote':
+      return {
+        ...state,
+        alerts: state.alerts.map(alert => alert.id === action.id ? { ...alert, notes: addNote(alert, action.note) } : alert),
+      };
+
+    case 'dismissAlert':
+      return { ...state, alerts: state.alerts.filter(alert => alert.id !== action.id) };
+
+    case 'clearAlerts':
+      return { ...state, alerts: [] };
+
+    // Replaces the rule with the same id, or adds it
+    case 'saveAlertRule':
+      return {
+        ...state,
+        alertRules: state.alertRules.some(rule => rule.id === action.rule.id)
+          ? state.alertRules.map(rule => rule.id === action.rule.id ? action.rule : rule)
+          : [...state.alertRules, action.rule],
+      };
+
+    case 'deleteAlertRule':
+      return { ...state, alertRules: state.alertRules.filter(rule => rule.id !== action.id) };
+
+    case 'setBrowserNotifications':
+      return { ...state, browserNotifications: action.enabled };
+
+    case 'saveNotificationChannel':
+      return {
+        ...state,
+        notificationChannels: state.notificationChannels.some(channel => channel.id === action.channel.id)
+          ? state.notificationChannels.map(channel => channel.id === action.channel.id ? action.channel : channel)
+          : [...state.notificationChannels, action.channel],
+      };
+
+    case 'deleteNotificationChannel':
+      return {
+        ...state,
+        notificationChannels: state.notificationChannels.filter(channel => channel.id !== action.id),
+      };
+
+    case 'addDeliveryLog':
+      return { ...state, deliveryLogs: [action.log, ...state.deliveryLogs].slice(0, MAX_DELIVERY_LOGS) };
+
+    case 'clearDeliveryLogs':
+      return { ...state, deliveryLogs: [] };
+
+    case 'addWorkOrder':
+      return { ...state, workOrders: [action.workOrder, ...state.workOrders] };
+
+    case 'updateWorkOrder':
+      return {
+        ...state,
+        workOrders: state.workOrders.map(order => order.id === action.id
+          ? { ...order, ...action.changes, updatedAt: new Date().toISOString() }
+          : order),
+      };
+
+    case 'setWorkOrderStatus': {
+      const at = new Date().toISOString();
+      return {
+        ...state,
+        workOrders: state.workOrders.map(order => order.id === action.id
+          ? {
+              ...order,
+              status: action.status,
+              updatedAt: at,
+              history: [...order.history, { status: action.status, at, note: action.note?.trim() || undefined }],
+            }
+          : order),
+      };
+    }
+
+    case 'workOrdersExported':
+      return {
+        ...state,
+        workOrders: state.workOrders.map(order => action.ids.includes(order.id)
+          ? { ...order, exportedAt: action.exportedAt, externalId: action.externalIds[order.id] ?? order.externalId }
+          : order),
+      };
+
+    case 'deleteWorkOrder':
+      return { ...state, workOrders: state.workOrders.filter(order => order.id !== action.id) };
+
+    case 'setCmmsConfig':
+      return { ...state, cmmsConfig: { ...state.cmmsConfig, ...action.config } };
+
+    case 'setDriftBaseline':
+      return { ...state, driftBaseline: action.baseline || AI4I_BASELINE };
+  }
+};
+
+export const toPersistedState = (
+  state: Pick<
+    AppState,
+    'currentDataset' | 'analysisOptions' | 'normalRanges' | 'alerts' | 'alertRules' | 'browserNotifications' |
+    'notificationChannels' | 'deliveryLogs' | 'workOrders' | 'cmmsConfig' | 'driftBaseline'
+  >
+): PersistedAppState => ({
+  currentDatasetId: state.currentDataset?.id ?? null,
+  analysisOptions: state.analysisOptions,
+  normalRanges: state.normalRanges,
+  alerts: state.alerts,
+  alertRules: state.alertRules,
+  browserNotifications: state.browserNotifications,
+  notificationChannels: state.notificationChannels,
+  deliveryLogs: state.deliveryLogs,
+  workOrders: state.workOrders,
+  cmmsConfig: state.cmmsConfig,
+  driftBaseline: state.driftBaseline,
+});
+
+export const AppStateContext = createContext<AppState | null>(null);
+export const AppDispatchContext = createContext<Dispatch<AppAction> | null>(null);
+
+export const useAppState = () => {
+  const state = useContext(AppStateContext);
+  if (!state) {
+    throw new Error('useAppState must be used inside AppStateProvider');
+  }
+  return state;
+};
+
+export const useAppDispatch = () => {
+  const dispatch = useContext(AppDispatchContext);
+  if (!dispatch) {
+    throw new Error('useAppDispatch must be used inside AppStateProvider');
+  }
+  return dispatch;
+};
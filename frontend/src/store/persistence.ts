@@ -0,0 +1,140 @@
+// IndexedDB persistence for the app store. Datasets are kept in their own object
+// store because they can be large, with a summary copy for the dataset library;
+// everything else is a single settings record.
+import type { Dataset, DatasetSummary } from '../types/dataset';
+import type { PersistedAppState } from './appState';
+
+const DB_NAME = 'anomalydetect';
+const DB_VERSION = 2;
+const DATASETS_STORE = 'datasets';
+const SUMMARIES_STORE = 'datasetSummaries';
+const STATE_STORE = 'state';
+const STATE_KEY = 'app';
+
+const toSummary = (dataset: Dataset): DatasetSummary => {
+  const summary: Partial<Dataset> = { ...dataset };
+  delete summary.data;
+  return summary as DatasetSummary;
+};
+
+// Fill in fields added after the first version of the schema
+const normalizeSummary = <T extends DatasetSummary>(summary: T): T => ({
+  ...summary,
+  createdAt: summary.createdAt || new Date(Number(summary.id.split('-').pop()) || 0).toISOString(),
+  tags: summary.tags || [],
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DATASETS_STORE)) {
+          db.createObjectStore(DATASETS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STATE_STORE)) {
+          db.createObjectStore(STATE_STORE);
+        }
+        if (!db.objectStoreNames.contains(SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+
+          // Version 1 only stored full datasets; build the summaries for them
+          if (event.oldVersion >= 1) {
+            const cursorRequest = request.transaction!.objectStore(DATASETS_STORE).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              summaries.put(normalizeSummary(toSummary(cursor.value)));
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request in its own transaction
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+export const loadPersistedState = () =>
+  withStore<PersistedAppState | undefined>(STATE_STORE, 'readonly', store => store.get(STATE_KEY));
+
+export const savePersistedState = (state: PersistedAppState) =>
+  withStore(STATE_STORE, 'readwrite', store => store.put(state, STATE_KEY));
+
+export const getDataset = async (id: string) => {
+  const dataset = await withStore<Dataset | undefined>(DATASETS_STORE, 'readonly', store => store.get(id));
+  return dataset && normalizeSummary(dataset);
+};
+
+// Resolves once every write in the transaction has been committed
+const complete = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+export const saveDataset = async (dataset: Dataset) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DATASETS_STORE, SUMMARIES_STORE], 'readwrite');
+  transaction.objectStore(DATASETS_STORE).put(dataset);
+  transaction.objectStore(SUMMARIES_STORE).put(toSummary(dataset));
+  return complete(transaction);
+};
+
+// Newest first
+export const listDatasets = async () => {
+  const summaries = await withStore<DatasetSummary[]>(SUMMARIES_STORE, 'readonly', store => store.getAll());
+  return summaries
+    .map(normalizeSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const updateDataset = async (id: string, changes: Partial<Pick<Dataset, 'name' | 'tags'>>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DATASETS_STORE, SUMMARIES_STORE], 'readwrite');
+  const datasets = transaction.objectStore(DATASETS_STORE);
+  const summaries = transaction.objectStore(SUMMARIES_STORE);
+
+  const request = datasets.get(id);
+  request.onsuccess = () => {
+    const dataset: Dataset | undefined = request.result;
+    if (!dataset) return;
+    const updated = { ...dataset, ...changes };
+    datasets.put(updated);
+    summaries.put(toSummary(updated));
+  };
+
+  return complete(transaction);
+};
+
+export const deleteDataset = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([DATASETS_STORE, SUMMARIES_STORE], 'readwrite');
+  transaction.objectStore(DATASETS_STORE).delete(id);
+  transaction.objectStore(SUMMARIES_STORE).delete(id);
+  return complete(transaction);
+};
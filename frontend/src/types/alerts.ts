@@ -0,0 +1,85 @@
+// Rules that raise alerts from parameter readings and the model's failure predictions
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+// Open alerts need attention; snoozed ones come back once the snooze runs out
+export type AlertState = 'open' | 'acknowledged' | 'snoozed' | 'resolved';
+
+export interface AlertNote {
+  text: string;
+  createdAt: string;
+}
+
+export type AlertRuleKind = 'threshold' | 'rateOfChange' | 'consecutive' | 'failurePrediction';
+
+export type ThresholdOperator = 'above' | 'below' | 'outside';
+
+interface AlertRuleBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  severity: AlertSeverity;
+  parameter: string | null; // Null watches every parameter
+}
+
+export interface ThresholdRule extends AlertRuleBase {
+  kind: 'threshold';
+  operator: ThresholdOperator; // 'outside' compares against the parameter's normal range
+  value: number;
+}
+
+// Change between two consecutive readings of the parameter
+export interface RateOfChangeRule extends AlertRuleBase {
+  kind: 'rateOfChange';
+  maxChange: number;
+}
+
+// At least `count` of the last `window` readings outside the normal range
+export interface ConsecutiveRule extends AlertRuleBase {
+  kind: 'consecutive';
+  count: number;
+  window: number;
+}
+
+// The model's failure probability for a record; readings without one never match
+export interface FailurePredictionRule extends AlertRuleBase {
+  kind: 'failurePrediction';
+  minScore: number;
+}
+
+export type AlertRule = ThresholdRule | RateOfChangeRule | ConsecutiveRule | FailurePredictionRule;
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  threshold: 'Threshold',
+  rateOfChange: 'Rate of change',
+  consecutive: 'N of M readings',
+  failurePrediction: 'Failure prediction',
+};
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-out-of-range',
+    name: 'Repeatedly outside normal range',
+    enabled: true,
+    severity: 'warning',
+    parameter: null,
+    kind: 'consecutive',
+    count: 3,
+    window: 5,
+  },
+  {
+    id: 'default-failure-predicted',
+    name: 'Failure predicted',
+    enabled: true,
+    severity: 'critical',
+    parameter: null,
+    kind: 'failurePrediction',
+    minScore: 0.8,
+  },
+];
+
+// Snoozed alerts count as open again once the snooze has run out
+export const getAlertState = (alert: { state: AlertState; snoozedUntil?: string }, now = Date.now()): AlertState =>
+  alert.state === 'snoozed' && (!alert.snoozedUntil || Date.parse(alert.snoozedUntil) <= now) ? 'open' : alert.state;
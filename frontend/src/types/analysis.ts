@@ -0,0 +1,71 @@
+// Options chosen on the Upload page and sent along with each prediction request
+
+export type DetectionSensitivity = 'low' | 'medium' | 'high' | 'custom';
+export type AnalysisType = 'all' | 'univariate' | 'multivariate' | 'correlation';
+export type ReportDetail = 'basic' | 'standard' | 'detailed' | 'comprehensive';
+// Where predictions come from: the backend model, the in-browser detectors, or the model checked by the detectors
+export type AnalysisEngine = 'model' | 'local' | 'crosscheck';
+
+export interface AnalysisOptions {
+  sensitivity: DetectionSensitivity;
+  analysisType: AnalysisType;
+  reportDetail: ReportDetail;
+  customThreshold: number; // Failure probability cut-off, only used when sensitivity is 'custom'
+  engine: AnalysisEngine;
+}
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  sensitivity: 'medium',
+  analysisType: 'all',
+  reportDetail: 'standard',
+  customThreshold: 0.5,
+  engine: 'model',
+};
+
+export const SENSITIVITY_LABELS: Record<DetectionSensitivity, string> = {
+  low: 'Low (fewer alerts)',
+  medium: 'Medium (balanced)',
+  high: 'High (more alerts)',
+  custom: 'Custom threshold',
+};
+
+export const ANALYSIS_TYPE_LABELS: Record<AnalysisType, string> = {
+  all: 'Full Spectrum Analysis',
+  univariate: 'Univariate Analysis',
+  multivariate: 'Multivariate Analysis',
+  correlation: 'Correlation Analysis',
+};
+
+export const REPORT_DETAIL_LABELS: Record<ReportDetail, string> = {
+  basic: 'Basic (overview only)',
+  standard: 'Standard (with explanations)',
+  detailed: 'Detailed (technical)',
+  comprehensive: 'Comprehensive (all details)',
+};
+
+export const ANALYSIS_ENGINE_LABELS: Record<AnalysisEngine, string> = {
+  model: 'Backend model',
+  local: 'In-browser detectors (offline)',
+  crosscheck: 'Backend model, cross-checked in browser',
+};
+
+// Probability above which a record counts as a failure for each preset
+export const SENSITIVITY_THRESHOLDS: Record<Exclude<DetectionSensitivity, 'custom'>, number> = {
+  low: 0.7,
+  medium: 0.5,
+  high: 0.3,
+};
+
+export const getFailureThreshold = (options: AnalysisOptions) =>
+  options.sensitivity === 'custom' ? options.customThreshold : SENSITIVITY_THRESHOLDS[options.sensitivity];
+
+// One-line summary for headers and reports, e.g. "Medium sensitivity · Full Spectrum Analysis · Standard report"
+export const describeAnalysisOptions = (options: AnalysisOptions) => [
+  options.sensitivity === 'custom'
+    ? `Custom threshold (p >= ${options.customThreshold})`
+    : `${SENSITIVITY_LABELS[options.sensitivity].split(' ')[0]} sensitivity`,
+  ANALYSIS_TYPE_LABELS[options.analysisType],
+  `${REPORT_DETAIL_LABELS[options.reportDetail].split(' ')[0]} report`,
+  // Datasets saved before the engine option existed were all analysed by the model
+  ...(options.engine && options.engine !== 'model' ? [ANALYSIS_ENGINE_LABELS[options.engine]] : []),
+].join(' · ');
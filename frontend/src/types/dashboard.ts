@@ -0,0 +1,67 @@
+import type { FailureMode } from '../utils/failureModes';
+import type { NormalRange } from './normalRanges';
+
+export type EquipmentStatus = 'normal' | 'warning' | 'anomaly';
+
+// How far back from the newest reading the parameter charts look
+export type TimeRange = 'all' | '1h' | '1d' | '1w' | '1m';
+
+// Dataset records [start, end)
+export interface RecordWindow {
+  start: number;
+  end: number;
+}
+
+export interface DataPoint {
+  timestamp: string;
+  value: number;
+  normalRange: { min: number; max: number };
+  isAnomaly: boolean;
+  status?: EquipmentStatus; // Score band of the source record, for dataset points
+  score?: number; // Failure probability of the source record
+  failureModes?: FailureMode[];
+  recordIndex?: number; // Position in the dataset, so the record can be explained
+}
+
+// Every record of one dataset parameter, column by column so a million points stay cheap.
+// Index i is dataset record i; the arrays without a parameter's own values are shared.
+export interface ParameterSeries {
+  times: Float64Array; // Epoch ms, or the record index when the dataset has no usable timestamps
+  hasTimestamps: boolean;
+  values: Float64Array;
+  statuses: Uint8Array; // Index into SERIES_STATUSES
+  scores: Float64Array;
+  failureModes: FailureMode[][];
+  ranges: NormalRange[]; // Distinct normal ranges of this parameter
+  rangeIndex: Uint8Array; // Which of `ranges` applies to each record
+}
+
+export interface Equipment {
+  id: string;
+  name: string;
+  data: DataPoint[]; // Live readings, or a downsampled overview of `series` for datasets
+  series?: ParameterSeries;
+  currentValue: number;
+  normalRange: { min: number; max: number };
+  status: EquipmentStatus;
+}
+
+export interface DatasetRunInfo {
+  totalPoints: number;
+  processedPoints: number;
+  anomaliesFound: number;
+  isComplete: boolean;
+}
+
+export interface AnomalyDistribution {
+  normal: number;
+  warning: number;
+  anomaly: number;
+}
+
+// Anomalies attributed to one failure mode, with counts per slice of the run for trends
+export interface FailureModeSummary {
+  mode: FailureMode | 'Unspecified';
+  count: number;
+  trend: number[];
+}
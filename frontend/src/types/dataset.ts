@@ -0,0 +1,19 @@
+import type { PredictionRecord } from '../services/api/types';
+import type { AnalysisOptions } from './analysis';
+
+// An analysed dataset: the uploaded (or sample) file together with its predictions
+export interface Dataset {
+  id: string;
+  name: string;
+  size: string;
+  records: number;
+  data: PredictionRecord[];
+  isCustom: boolean;
+  anomaliesCount?: number;
+  createdAt: string; // ISO time the analysis finished
+  tags: string[];
+  analysisOptions?: AnalysisOptions; // Missing for datasets analysed before the options were recorded
+}
+
+// What the dataset library lists; the predictions are only loaded when a dataset is opened
+export type DatasetSummary = Omit<Dataset, 'data'>;
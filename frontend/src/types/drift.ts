@@ -0,0 +1,85 @@
+// Profile of the data the model was trained on, and how far an upload has drifted from it
+
+export type DriftLevel = 'none' | 'moderate' | 'significant';
+
+// Deciles, from the minimum (0) to the maximum (1)
+export const PROFILE_QUANTILES = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+export interface FeatureProfile {
+  count: number;
+  mean: number;
+  std: number;
+  quantiles: number[]; // Values at PROFILE_QUANTILES
+}
+
+export interface BaselineProfile {
+  name: string;
+  datasetId?: string; // Library dataset it was built from; missing for the built-in profile
+  createdAt: string;
+  features: Record<string, FeatureProfile>;
+}
+
+export interface FeatureDrift {
+  feature: string;
+  psi: number; // Population stability index over the baseline's decile bins
+  ksStatistic: number;
+  ksPValue: number;
+  outOfRange: number; // Values outside the baseline's minimum and maximum
+  count: number;
+  baselineMean: number;
+  mean: number;
+  level: DriftLevel;
+}
+
+export interface DriftReport {
+  baselineName: string;
+  level: DriftLevel; // The worst feature's level
+  features: FeatureDrift[]; // Most drifted first
+  missingFeatures: string[]; // In the baseline but not the upload
+  newFeatures: string[]; // In the upload but not the baseline
+}
+
+export const DRIFT_LEVEL_LABELS: Record<DriftLevel, string> = {
+  none: 'No drift',
+  moderate: 'Moderate drift',
+  significant: 'Significant drift',
+};
+
+// The AI4I 2020 training data (10,000 records). Mean, spread and range are the published
+// figures; the inner deciles are interpolated from its quartiles.
+export const AI4I_BASELINE: BaselineProfile = {
+  name: 'AI4I 2020 training data',
+  createdAt: '2020-01-01T00:00:00.000Z',
+  features: {
+    'Air temperature [K]': {
+      count: 10000,
+      mean: 300.0,
+      std: 2.0,
+      quantiles: [295.3, 297.4, 298.3, 299.0, 299.5, 300.1, 300.5, 301.1, 301.7, 302.6, 304.5],
+    },
+    'Process temperature [K]': {
+      count: 10000,
+      mean: 310.01,
+      std: 1.48,
+      quantiles: [305.7, 308.1, 308.8, 309.2, 309.6, 310.1, 310.4, 310.8, 311.3, 311.9, 313.8],
+    },
+    'Rotational speed [rpm]': {
+      count: 10000,
+      mean: 1538.78,
+      std: 179.28,
+      quantiles: [1168, 1370, 1405, 1440, 1470, 1503, 1538, 1580, 1645, 1755, 2886],
+    },
+    'Torque [Nm]': {
+      count: 10000,
+      mean: 39.99,
+      std: 9.97,
+      quantiles: [3.8, 27.2, 31.6, 34.8, 37.5, 40.1, 42.5, 45.2, 48.4, 52.8, 76.6],
+    },
+    'Tool wear [min]': {
+      count: 10000,
+      mean: 107.95,
+      std: 63.65,
+      quantiles: [0, 22, 43, 65, 86, 108, 130, 151, 173, 204, 253],
+    },
+  },
+};
@@ -0,0 +1,29 @@
+// How each parameter's normal operating band is learned from a dataset's "No Failure" records
+
+export interface NormalRange {
+  min: number;
+  max: number;
+}
+
+export type NormalRangeMethod = 'percentile' | 'sigma';
+
+export interface NormalRangeConfig {
+  method: NormalRangeMethod;
+  percentile: number; // Trimmed from each tail, e.g. 1 keeps the 1st-99th percentile
+  sigma: number; // Band half-width in standard deviations around the mean
+  byType: boolean; // Learn a band per machine Type (L/M/H)
+  overrides: Record<string, NormalRange>; // Ranges entered by the user, by parameter name
+}
+
+export const DEFAULT_NORMAL_RANGE_CONFIG: NormalRangeConfig = {
+  method: 'percentile',
+  percentile: 1,
+  sigma: 3,
+  byType: false,
+  overrides: {},
+};
+
+export const NORMAL_RANGE_METHOD_LABELS: Record<NormalRangeMethod, string> = {
+  percentile: 'Percentiles',
+  sigma: 'Mean ± kσ',
+};
@@ -0,0 +1,86 @@
+// Outbound channels that alerts are delivered to outside the browser
+import type { AlertSeverity } from './alerts';
+
+export type ChannelKind = 'webhook' | 'chat' | 'email';
+
+// Slack incoming webhooks take `text`; Teams connectors take a MessageCard
+export type ChatFormat = 'slack' | 'teams';
+
+interface ChannelBase {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string;
+  minSeverity: AlertSeverity; // Quieter alerts aren't sent
+  maxPerMinute: number; // Deliveries beyond this are dropped and logged
+}
+
+// POSTs the template with {{placeholders}} filled in; it must be JSON once filled
+export interface WebhookChannel extends ChannelBase {
+  kind: 'webhook';
+  bodyTemplate: string;
+}
+
+export interface ChatChannel extends ChannelBase {
+  kind: 'chat';
+  format: ChatFormat;
+}
+
+// An HTTP endpoint that relays the message over SMTP, since browsers can't send mail
+export interface EmailChannel extends ChannelBase {
+  kind: 'email';
+  from: string;
+  to: string[];
+}
+
+export type NotificationChannel = WebhookChannel | ChatChannel | EmailChannel;
+
+export type DeliveryStatus = 'sent' | 'failed' | 'rateLimited';
+
+export interface DeliveryLog {
+  id: string;
+  channelId: string;
+  channelName: string;
+  alertTitle: string;
+  isTest: boolean;
+  status: DeliveryStatus;
+  createdAt: string;
+  durationMs?: number;
+  error?: string;
+}
+
+export const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
+  webhook: 'Webhook',
+  chat: 'Slack / Teams',
+  email: 'Email relay',
+};
+
+export const CHAT_FORMAT_LABELS: Record<ChatFormat, string> = {
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+};
+
+// What a channel is told about an alert; also the placeholders a webhook template can use
+export interface AlertMessage {
+  id: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  parameter: string;
+  createdAt: string;
+  source: string; // Dataset name or device the alert came from
+}
+
+export const TEMPLATE_FIELDS: (keyof AlertMessage)[] = ['id', 'title', 'message', 'severity', 'parameter', 'createdAt', 'source'];
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "id": "{{id}}",
+  "severity": "{{severity}}",
+  "title": "{{title}}",
+  "message": "{{message}}",
+  "parameter": "{{parameter}}",
+  "source": "{{source}}",
+  "createdAt": "{{createdAt}}"
+}`;
+
+export const DEFAULT_MAX_PER_MINUTE = 10;
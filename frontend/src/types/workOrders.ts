@@ -0,0 +1,77 @@
+// Maintenance work orders raised from anomalies, and where they're exported to
+import type { NormalRange } from './normalRanges';
+import type { FailureMode } from '../utils/failureModes';
+
+export type WorkOrderStatus = 'open' | 'inProgress' | 'onHold' | 'completed' | 'cancelled';
+
+export type WorkOrderPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface WorkOrderReading {
+  parameter: string;
+  value: number;
+  normalRange: NormalRange;
+  isOutside: boolean;
+}
+
+export interface WorkOrderStatusChange {
+  status: WorkOrderStatus;
+  at: string;
+  note?: string;
+}
+
+export interface WorkOrder {
+  id: string;
+  title: string;
+  description: string;
+  equipment: string; // The parameter the anomaly was raised on
+  source: string; // Dataset name or device
+  timestamp: string; // Of the anomalous reading; "Point N" when the dataset has none
+  readings: WorkOrderReading[]; // Values at the anomaly, the ones outside their range first
+  failureModes: FailureMode[];
+  failureProbability?: number;
+  priority: WorkOrderPriority;
+  status: WorkOrderStatus;
+  assignee: string;
+  chartSnapshot: string; // SVG data URL of the readings around the anomaly
+  history: WorkOrderStatusChange[]; // Oldest first, starting with 'open'
+  createdAt: string;
+  updatedAt: string;
+  recordIndex?: number;
+  datasetId?: string;
+  deviceId?: string;
+  externalId?: string; // Id given by the CMMS it was exported to
+  exportedAt?: string;
+}
+
+export const WORK_ORDER_STATUS_LABELS: Record<WorkOrderStatus, string> = {
+  open: 'Open',
+  inProgress: 'In progress',
+  onHold: 'On hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+// The statuses each status can move to
+export const WORK_ORDER_TRANSITIONS: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  open: ['inProgress', 'onHold', 'cancelled'],
+  inProgress: ['onHold', 'completed', 'cancelled'],
+  onHold: ['inProgress', 'cancelled'],
+  completed: ['open'],
+  cancelled: ['open'],
+};
+
+export const WORK_ORDER_PRIORITIES: WorkOrderPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export type CmmsAdapterKind = 'csv' | 'rest';
+
+export interface CmmsConfig {
+  adapter: CmmsAdapterKind;
+  url: string; // Work order endpoint, for the REST adapter
+  apiKey: string; // Sent as a bearer token when set
+}
+
+export const DEFAULT_CMMS_CONFIG: CmmsConfig = {
+  adapter: 'csv',
+  url: '',
+  apiKey: '',
+};
@@ -0,0 +1,116 @@
+import type { AlertRule } from '../types/alerts';
+import type { DataPoint } from '../types/dashboard';
+import { isOutsideRange } from './normalRanges';
+
+// Readings kept per parameter, enough for any N-of-M window
+export const MAX_RULE_WINDOW = 100;
+
+export interface AlertTrigger {
+  rule: AlertRule;
+  parameter: string | null; // Null for failure predictions, which belong to the whole record
+  point: DataPoint;
+  message: string;
+}
+
+export interface AlertEngine {
+  // Feeds a parameter's new readings, oldest first, and returns the rules that started matching
+  evaluate: (rules: AlertRule[], parameter: string, points: DataPoint[]) => AlertTrigger[];
+  reset: () => void;
+}
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(2));
+
+// What the rule found in the parameter's readings (newest last), or null when it doesn't match
+export const matchAlertRule = (rule: AlertRule, history: DataPoint[]): string | null => {
+  const point = history[history.length - 1];
+  if (!point) return null;
+
+  switch (rule.kind) {
+    case 'threshold':
+      if (!Number.isFinite(point.value)) return null;
+      if (rule.operator === 'above') {
+        return point.value > rule.value ? `${formatValue(point.value)} is above ${formatValue(rule.value)}` : null;
+      }
+      if (rule.operator === 'below') {
+        return point.value < rule.value ? `${formatValue(point.value)} is below ${formatValue(rule.value)}` : null;
+      }
+      return isOutsideRange(point.value, point.normalRange)
+        ? `${formatValue(point.value)} is outside the normal range ${formatValue(point.normalRange.min)} – ${formatValue(point.normalRange.max)}`
+        : null;
+
+    case 'rateOfChange': {
+      const previous = history[history.length - 2];
+      const change = previous ? point.value - previous.value : NaN;
+      return Number.isFinite(change) && Math.abs(change) >= rule.maxChange
+        ? `Changed by ${change > 0 ? '+' : ''}${formatValue(change)} since the previous reading (limit ${formatValue(rule.maxChange)})`
+        : null;
+    }
+
+    case 'consecutive': {
+      const recent = history.slice(-rule.window);
+      const outside = recent.filter(p => Number.isFinite(p.value) && isOutsideRange(p.value, p.normalRange)).length;
+      return outside >= rule.count
+        ? `${outside} of the last ${recent.length} readings were outside the normal range`
+        : null;
+    }
+
+    case 'failurePrediction':
+      return point.score !== undefined && point.score >= rule.minScore
+        ? `Failure probability ${(point.score * 100).toFixed(0)}% (alerting from ${(rule.minScore * 100).toFixed(0)}%)`
+        : null;
+  }
+};
+
+// Remembers recent readings and which rules currently match, so a rule alerts when it
+// starts matching and only again once it has cleared
+export const createAlertEngine = (): AlertEngine => {
+  const histories = new Map<string, DataPoint[]>();
+  const matching = new Set<string>();
+  // Every dataset parameter carries the same record's prediction, so each record is checked once
+  const lastPredictionRecord = new Map<string, number>();
+
+  const evaluate = (rules: AlertRule[], parameter: string, points: DataPoint[]) => {
+    const history = histories.get(parameter) ?? [];
+    histories.set(parameter, history);
+    // At most one alert per rule and parameter for a batch, the latest
+    const triggers = new Map<string, AlertTrigger>();
+
+    points.forEach(point => {
+      history.push(point);
+      if (history.length > MAX_RULE_WINDOW) history.shift();
+
+      rules.forEach(rule => {
+        if (!rule.enabled || (rule.parameter !== null && rule.parameter !== parameter)) return;
+
+        // A dataset record's prediction is shared by all its parameters; live readings are scored
+        // per parameter, and one without a score neither matches nor clears the rule
+        const { recordIndex } = point;
+        const isRecordPrediction = rule.kind === 'failurePrediction' && recordIndex !== undefined;
+        if (rule.kind === 'failurePrediction' && point.score === undefined) return;
+        if (isRecordPrediction) {
+          if (recordIndex <= (lastPredictionRecord.get(rule.id) ?? -1)) return;
+          lastPredictionRecord.set(rule.id, recordIndex);
+        }
+
+        const key = isRecordPrediction ? rule.id : `${rule.id}:${parameter}`;
+        const message = matchAlertRule(rule, history);
+        if (!message) {
+          matching.delete(key);
+        } else if (!matching.has(key)) {
+          matching.add(key);
+          triggers.set(key, { rule, parameter: isRecordPrediction ? null : parameter, point, message });
+        }
+      });
+    });
+
+    return [...triggers.values()];
+  };
+
+  const reset = () => {
+    histories.clear();
+    matching.clear();
+    lastPredictionRecord.clear();
+  };
+
+  return { evaluate, reset };
+};
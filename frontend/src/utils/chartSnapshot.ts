@@ -0,0 +1,71 @@
+import type { ParameterSeries } from '../types/dashboard';
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 24, right: 12, bottom: 20, left: 48 };
+// Readings either side of the anomaly
+const CONTEXT_POINTS = 60;
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const formatTick = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(2));
+
+// Small static chart of a parameter around one reading: the readings, that reading's normal
+// band and a marker on the reading itself. Vector, so it stays sharp and small when stored.
+export const renderSnapshotSvg = (series: ParameterSeries, index: number, title: string) => {
+  const start = Math.max(0, index - CONTEXT_POINTS);
+  const end = Math.min(series.values.length, index + CONTEXT_POINTS + 1);
+  const band = series.ranges[series.rangeIndex[index]];
+
+  let min = Math.min(band.min, series.values[index]);
+  let max = Math.max(band.max, series.values[index]);
+  for (let i = start; i < end; i++) {
+    if (!Number.isFinite(series.values[i])) continue;
+    min = Math.min(min, series.values[i]);
+    max = Math.max(max, series.values[i]);
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) [min, max] = [0, 1];
+  if (min === max) [min, max] = [min - 1, max + 1];
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (end - start > 1 ? ((i - start) / (end - start - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  // Gaps where values are missing start a new segment
+  let path = '';
+  let penDown = false;
+  for (let i = start; i < end; i++) {
+    const value = series.values[i];
+    if (!Number.isFinite(value)) {
+      penDown = false;
+      continue;
+    }
+    path += `${penDown ? 'L' : 'M'}${x(i).toFixed(1)},${y(value).toFixed(1)}`;
+    penDown = true;
+  }
+
+  const bandTop = y(Math.min(band.max, max));
+  const bandBottom = y(Math.max(band.min, min));
+  const markerValue = series.values[index];
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="sans-serif" font-size="10">`,
+    `<rect width="${WIDTH}" height="${HEIGHT}" fill="#ffffff"/>`,
+    `<text x="${PADDING.left}" y="14" font-size="11" font-weight="bold" fill="#111827">${escapeXml(title)}</text>`,
+    `<rect x="${PADDING.left}" y="${bandTop.toFixed(1)}" width="${plotWidth}" height="${Math.max(0, bandBottom - bandTop).toFixed(1)}" fill="#10B981" fill-opacity="0.12"/>`,
+    `<line x1="${PADDING.left}" y1="${PADDING.top + plotHeight}" x2="${WIDTH - PADDING.right}" y2="${PADDING.top + plotHeight}" stroke="#D1D5DB"/>`,
+    `<text x="${PADDING.left - 4}" y="${PADDING.top + 4}" text-anchor="end" fill="#6B7280">${formatTick(max)}</text>`,
+    `<text x="${PADDING.left - 4}" y="${PADDING.top + plotHeight}" text-anchor="end" fill="#6B7280">${formatTick(min)}</text>`,
+    `<path d="${path}" fill="none" stroke="#3B82F6" stroke-width="1.5"/>`,
+    `<line x1="${x(index).toFixed(1)}" y1="${PADDING.top}" x2="${x(index).toFixed(1)}" y2="${PADDING.top + plotHeight}" stroke="#EF4444" stroke-dasharray="3 3"/>`,
+    Number.isFinite(markerValue)
+      ? `<circle cx="${x(index).toFixed(1)}" cy="${y(markerValue).toFixed(1)}" r="4" fill="#EF4444"/>`
+      : '',
+    `<text x="${PADDING.left}" y="${HEIGHT - 6}" fill="#6B7280">Normal range ${formatTick(band.min)} – ${formatTick(band.max)} · ${end - start} readings</text>`,
+    '</svg>',
+  ].join('');
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,214 @@
+import { describeColumns, REQUIRED_COLUMNS, validateDataset } from './datasetParser';
+import type { CellValue, ColumnInfo, ParsedDataset, ParsedRow, ParseIssue } from './datasetParser';
+
+type Quantity = 'temperature' | 'speed' | 'torque' | 'duration';
+
+interface UnitDefinition {
+  unit: string;
+  toModel: (value: number) => number;
+  headerPattern?: RegExp; // Hints in a column header that suggest this unit
+}
+
+export interface ModelFeature {
+  name: string;
+  quantity: Quantity | null; // Categorical features have no unit
+  namePattern: RegExp; // Used to suggest a source column
+}
+
+export interface FeatureMapping {
+  column: string | null;
+  unit: string;
+}
+
+export interface ColumnMapping {
+  features: Record<string, FeatureMapping>;
+  timestampColumn: string | null;
+}
+
+// The first unit of each quantity is the one the model was trained on
+export const UNITS: Record<Quantity, UnitDefinition[]> = {
+  temperature: [
+    { unit: 'K', toModel: value => value },
+    { unit: '°C', toModel: value => value + 273.15, headerPattern: /°\s*c\b|\bdeg\s*c\b|celsius|\[c\]|\(c\)/i },
+    { unit: '°F', toModel: value => (value - 32) * 5 / 9 + 273.15, headerPattern: /°\s*f\b|\bdeg\s*f\b|fahrenheit|\[f\]|\(f\)/i },
+  ],
+  speed: [
+    { unit: 'rpm', toModel: value => value },
+    { unit: 'rad/s', toModel: value => value * 60 / (2 * Math.PI), headerPattern: /rad\s*\/\s*s/i },
+    { unit: 'Hz', toModel: value => value * 60, headerPattern: /\bhz\b|rev\s*\/\s*s/i },
+  ],
+  torque: [
+    { unit: 'Nm', toModel: value => value },
+  ],
+  duration: [
+    { unit: 'min', toModel: value => value },
+    { unit: 'h', toModel: value => value * 60, headerPattern: /\[h\]|\(h\)|hours?\b/i },
+    { unit: 's', toModel: value => value / 60, headerPattern: /\[s\]|\(s\)|sec(ond)?s?\b/i },
+  ],
+};
+
+export const MODEL_FEATURES: ModelFeature[] = [
+  { name: 'Type', quantity: null, namePattern: /^(type|product.?type|quality|variant)$/i },
+  { name: 'Air temperature [K]', quantity: 'temperature', namePattern: /air.*temp|ambient/i },
+  { name: 'Process temperature [K]', quantity: 'temperature', namePattern: /process.*temp|proc.*temp/i },
+  { name: 'Rotational speed [rpm]', quantity: 'speed', namePattern: /rot|speed|rpm/i },
+  { name: 'Torque [Nm]', quantity: 'torque', namePattern: /torque/i },
+  { name: 'Tool wear [min]', quantity: 'duration', namePattern: /wear/i },
+];
+
+// Name of the field the Dashboard reads timestamps from
+export const TIMESTAMP_FIELD = 'timestamp';
+
+const STORAGE_KEY = 'anomalydetect.columnMappings';
+
+interface SavedMapping {
+  sourceName: string;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+export const getUnits = (feature: ModelFeature) => (feature.quantity ? UNITS[feature.quantity] : []);
+
+const modelUnit = (feature: ModelFeature) => getUnits(feature)[0]?.unit || '';
+
+const guessUnit = (feature: ModelFeature, header: string) => {
+  // A column already named after the feature is in the model's unit
+  if (header === feature.name) return modelUnit(feature);
+
+  const match = getUnits(feature).find(unit => unit.headerPattern?.test(header));
+  return match ? match.unit : modelUnit(feature);
+};
+
+// Best-effort mapping from header names and detected column types
+export const suggestMapping = (columns: ColumnInfo[]): ColumnMapping => {
+  const used = new Set<string>();
+  const features: Record<string, FeatureMapping> = {};
+
+  MODEL_FEATURES.forEach(feature => {
+    const exact = columns.find(column => column.name === feature.name);
+    const fuzzy = columns.find(column => !used.has(column.name) && feature.namePattern.test(column.name));
+    const column = exact || fuzzy || null;
+
+    if (column) used.add(column.name);
+    features[feature.name] = {
+      column: column ? column.name : null,
+      unit: column ? guessUnit(feature, column.name) : modelUnit(feature),
+    };
+  });
+
+  const timestamp = columns.find(column => column.name === TIMESTAMP_FIELD)
+    || columns.find(column => column.type === 'date')
+    || columns.find(column => /time|date/i.test(column.name));
+
+  return { features, timestampColumn: timestamp ? timestamp.name : null };
+};
+
+// Columns with the same headers are assumed to come from the same source system
+export const getSourceSignature = (columns: ColumnInfo[]) =>
+  columns.map(column => column.name).sort().join('|');
+
+const readSavedMappings = (): Record<string, SavedMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadSavedMapping = (columns: ColumnInfo[]): SavedMapping | null => {
+  const saved = readSavedMappings()[getSourceSignature(columns)];
+  if (!saved) return null;
+
+  // Ignore mappings that point at columns this file doesn't have
+  const names = new Set(columns.map(column => column.name));
+  const referenced = [
+    ...Object.values(saved.mapping.features).map(feature => feature.column),
+    saved.mapping.timestampColumn,
+  ];
+  return referenced.every(column => column === null || names.has(column)) ? saved : null;
+};
+
+export const saveMapping = (columns: ColumnInfo[], sourceName: string, mapping: ColumnMapping) => {
+  const saved = readSavedMappings();
+  saved[getSourceSignature(columns)] = { sourceName, mapping, savedAt: new Date().toISOString() };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  } catch (error) {
+    console.warn('Could not save column mapping:', error);
+  }
+};
+
+// Accepts ISO/locale date strings and epoch seconds or milliseconds
+const toIsoTimestamp = (value: CellValue): string | null => {
+  if (value === null || value === '' || typeof value === 'boolean') return null;
+
+  const time = typeof value === 'number'
+    ? (value > 1e11 ? value : value * 1000)
+    : Date.parse(value);
+
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+// Rename, convert and validate the parsed rows so they match the model's schema
+export const applyColumnMapping = (dataset: ParsedDataset, mapping: ColumnMapping): ParsedDataset => {
+  const mappedColumns = new Set<string>();
+  const issues: ParseIssue[] = [...dataset.issues];
+  let invalidTimestamps = 0;
+
+  const converters = MODEL_FEATURES
+    .map(feature => {
+      const { column, unit } = mapping.features[feature.name] || { column: null, unit: modelUnit(feature) };
+      if (!column) return null;
+
+      mappedColumns.add(column);
+      const definition = getUnits(feature).find(u => u.unit === unit);
+      return { feature: feature.name, column, toModel: definition?.toModel };
+    })
+    .filter(converter => converter !== null);
+
+  if (mapping.timestampColumn) mappedColumns.add(mapping.timestampColumn);
+
+  const rows: ParsedRow[] = dataset.rows.map(row => {
+    const mapped: ParsedRow = {};
+
+    // Keep unmapped columns as-is so nothing the user uploaded is lost
+    Object.entries(row).forEach(([key, value]) => {
+      if (!mappedColumns.has(key)) mapped[key] = value;
+    });
+
+    converters.forEach(({ feature, column, toModel }) => {
+      const value = row[column] ?? null;
+      mapped[feature] = typeof value === 'number' && toModel ? toModel(value) : value;
+    });
+
+    if (mapping.timestampColumn) {
+      const timestamp = toIsoTimestamp(row[mapping.timestampColumn] ?? null);
+      if (timestamp === null) invalidTimestamps++;
+      mapped[TIMESTAMP_FIELD] = timestamp;
+    }
+
+    return mapped;
+  });
+
+  if (invalidTimestamps > 0) {
+    issues.push({
+      severity: 'warning',
+      message: `${invalidTimestamps.toLocaleString()} rows have no readable timestamp in "${mapping.timestampColumn}"`,
+    });
+  }
+
+  const columns = describeColumns(rows);
+
+  return {
+    ...dataset,
+    columns,
+    rows,
+    rowCount: rows.length,
+    issues: [...issues, ...validateDataset(columns, rows)],
+  };
+};
+
+// True when every required feature has a source column
+export const isMappingComplete = (mapping: ColumnMapping) =>
+  REQUIRED_COLUMNS.every(required => !!mapping.features[required.name]?.column);
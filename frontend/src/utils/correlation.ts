@@ -0,0 +1,77 @@
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+};
+
+// Spearman ranks every column, so very long series are ranked from an even sample of this size
+const MAX_RANKED_RECORDS = 200000;
+
+// Pearson correlation over the records where both values are present; NaN if either is constant
+export const pearson = (xs: ArrayLike<number>, ys: ArrayLike<number>) => {
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    if (Number.isFinite(xs[i]) && Number.isFinite(ys[i])) {
+      count++;
+      sumX += xs[i];
+      sumY += ys[i];
+    }
+  }
+  if (count < 2) return NaN;
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    if (Number.isFinite(xs[i]) && Number.isFinite(ys[i])) {
+      const dx = xs[i] - meanX;
+      const dy = ys[i] - meanY;
+      covariance += dx * dy;
+      varianceX += dx * dx;
+      varianceY += dy * dy;
+    }
+  }
+  return varianceX === 0 || varianceY === 0 ? NaN : covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Ranks starting at 1, with ties sharing their average rank; missing values stay NaN
+export const rank = (values: ArrayLike<number>): Float64Array => {
+  const ranks = new Float64Array(values.length).fill(NaN);
+  const order = Array.from({ length: values.length }, (_, i) => i)
+    .filter(i => Number.isFinite(values[i]))
+    .sort((a, b) => values[a] - values[b]);
+
+  for (let start = 0; start < order.length;) {
+    let end = start + 1;
+    while (end < order.length && values[order[end]] === values[order[start]]) end++;
+    const averageRank = (start + end + 1) / 2;
+    for (let i = start; i < end; i++) ranks[order[i]] = averageRank;
+    start = end;
+  }
+  return ranks;
+};
+
+const sampleEvenly = (values: ArrayLike<number>, size: number): Float64Array => {
+  const step = values.length / size;
+  return Float64Array.from({ length: size }, (_, i) => values[Math.floor(i * step)]);
+};
+
+// Symmetric matrix of pairwise correlations between columns of equal length
+export const correlationMatrix = (columns: ArrayLike<number>[], method: CorrelationMethod): number[][] => {
+  const prepared = method === 'spearman'
+    ? columns.map(column => rank(column.length > MAX_RANKED_RECORDS ? sampleEvenly(column, MAX_RANKED_RECORDS) : column))
+    : columns;
+
+  const matrix = columns.map(() => new Array<number>(columns.length).fill(1));
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      matrix[i][j] = matrix[j][i] = pearson(prepared[i], prepared[j]);
+    }
+  }
+  return matrix;
+};
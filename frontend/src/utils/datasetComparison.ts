@@ -0,0 +1,181 @@
+import type { PredictionRecord } from '../services/api/types';
+import type { Dataset } from '../types/dataset';
+import { mean } from './detection/stats';
+import { lttb } from './downsample';
+import { computeFeatureImportance } from './explanations';
+import { classifyScore, getDefaultScoreBands, getFailureScore, getNumericFeatures } from './predictions';
+import { getSeriesTimes } from './series';
+
+const HISTOGRAM_BINS = 20;
+// Below this p-value the two runs' distributions are treated as different
+export const SHIFT_P_VALUE = 0.05;
+
+export interface KsResult {
+  statistic: number; // Largest gap between the two empirical CDFs, 0 to 1
+  pValue: number;
+}
+
+export interface HistogramBin {
+  label: string;
+  start: number;
+  end: number;
+  shares: [number, number]; // Fraction of each run's values in the bin
+}
+
+export interface FeatureShift {
+  feature: string;
+  ks: KsResult;
+  means: [number, number];
+  histogram: HistogramBin[];
+}
+
+export interface ImportanceChange {
+  feature: string;
+  values: [number, number];
+  delta: number; // Second minus first
+}
+
+export interface DatasetComparison {
+  features: FeatureShift[]; // Most shifted first
+  importance: ImportanceChange[]; // Largest change first
+}
+
+export interface OverlayPoint {
+  x: number;
+  value: number;
+}
+
+export interface AlignedOverlay {
+  byTime: boolean; // Elapsed ms from each run's first record when both have timestamps, else record number
+  lines: [OverlayPoint[], OverlayPoint[]];
+}
+
+const finiteValues = (records: PredictionRecord[], feature: string) => {
+  const values: number[] = [];
+  records.forEach(record => {
+    const value = record[feature];
+    if (typeof value === 'number' && Number.isFinite(value)) values.push(value);
+  });
+  return values;
+};
+
+// Asymptotic Kolmogorov distribution, as in Numerical Recipes' probks
+export const kolmogorovPValue = (lambda: number) => {
+  if (lambda < 1e-3) return 1;
+  let sum = 0;
+  let sign = 1;
+  for (let j = 1; j <= 100; j++) {
+    const term = sign * Math.exp(-2 * j * j * lambda * lambda);
+    sum += term;
+    if (Math.abs(term) < 1e-10) break;
+    sign = -sign;
+  }
+  return Math.min(1, Math.max(0, 2 * sum));
+};
+
+// Two-sample Kolmogorov–Smirnov test
+export const ksTest = (first: number[], second: number[]): KsResult => {
+  if (first.length === 0 || second.length === 0) return { statistic: 0, pValue: 1 };
+  const a = Float64Array.from(first).sort();
+  const b = Float64Array.from(second).sort();
+
+  let i = 0;
+  let j = 0;
+  let statistic = 0;
+  while (i < a.length && j < b.length) {
+    const value = Math.min(a[i], b[j]);
+    while (i < a.length && a[i] === value) i++;
+    while (j < b.length && b[j] === value) j++;
+    statistic = Math.max(statistic, Math.abs(i / a.length - j / b.length));
+  }
+
+  const effective = Math.sqrt((a.length * b.length) / (a.length + b.length));
+  return { statistic, pValue: kolmogorovPValue((effective + 0.12 + 0.11 / effective) * statistic) };
+};
+
+// Both runs binned over the same range, so the bars line up
+export const overlayHistograms = (first: number[], second: number[], bins = HISTOGRAM_BINS): HistogramBin[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  [first, second].forEach(values => values.forEach(value => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }));
+  if (!Number.isFinite(min)) return [];
+  if (min === max) bins = 1;
+
+  const width = (max - min) / bins || 1;
+  const counts = [new Array<number>(bins).fill(0), new Array<number>(bins).fill(0)];
+  [first, second].forEach((values, run) => values.forEach(value => {
+    counts[run][Math.min(bins - 1, Math.floor((value - min) / width))]++;
+  }));
+
+  return counts[0].map((_, bin) => {
+    const start = min + bin * width;
+    return {
+      label: start.toFixed(Math.abs(width) >= 10 ? 0 : 2),
+      start,
+      end: start + width,
+      shares: [
+        first.length > 0 ? counts[0][bin] / first.length : 0,
+        second.length > 0 ? counts[1][bin] / second.length : 0,
+      ],
+    };
+  });
+};
+
+// Anomalies as the dashboard flags them with the run's default score bands
+const flagAnomalies = (dataset: Dataset) => {
+  const bands = getDefaultScoreBands(dataset.analysisOptions);
+  return dataset.data.map(record => classifyScore(getFailureScore(record), bands) === 'anomaly');
+};
+
+// Deltas between two runs of the same line; features only one run has are left out
+export const compareDatasets = (first: Dataset, second: Dataset): DatasetComparison => {
+  const flags = [flagAnomalies(first), flagAnomalies(second)];
+  const secondFeatures = new Set(second.data.length > 0 ? getNumericFeatures(second.data[0]) : []);
+  const features = first.data.length > 0 ? getNumericFeatures(first.data[0]).filter(feature => secondFeatures.has(feature)) : [];
+
+  const shifts = features
+    .map(feature => {
+      const firstValues = finiteValues(first.data, feature);
+      const secondValues = finiteValues(second.data, feature);
+      return {
+        feature,
+        ks: ksTest(firstValues, secondValues),
+        means: [mean(firstValues), mean(secondValues)] as [number, number],
+        histogram: overlayHistograms(firstValues, secondValues),
+      };
+    })
+    .sort((a, b) => b.ks.statistic - a.ks.statistic);
+
+  const importances = [computeFeatureImportance(first.data, flags[0]), computeFeatureImportance(second.data, flags[1])];
+  const importance = features
+    .map(feature => {
+      const values = importances.map(list => list.find(item => item.name === feature)?.value ?? 0) as [number, number];
+      return { feature, values, delta: values[1] - values[0] };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return { features: shifts, importance };
+};
+
+// One feature from both runs on a shared x axis starting at zero, downsampled for drawing
+export const alignFeatureSeries = (datasets: [Dataset, Dataset], feature: string, maxPoints: number): AlignedOverlay => {
+  const runs = datasets.map(dataset => ({ ...getSeriesTimes(dataset.data), records: dataset.data }));
+  const byTime = runs.every(run => run.hasTimestamps);
+
+  const lines = runs.map(run => {
+    const xs: number[] = [];
+    const values: number[] = [];
+    run.records.forEach((record, i) => {
+      const value = record[feature];
+      if (typeof value !== 'number' || !Number.isFinite(value)) return;
+      xs.push(byTime ? run.times[i] - run.times[0] : i + 1);
+      values.push(value);
+    });
+    return lttb(xs, values, maxPoints).map(index => ({ x: xs[index], value: values[index] }));
+  });
+
+  return { byTime, lines: [lines[0], lines[1]] };
+};
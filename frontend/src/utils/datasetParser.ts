@@ -0,0 +1,279 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+
+export type DatasetFormat = 'csv' | 'json' | 'excel';
+export type ColumnType = 'number' | 'string' | 'boolean' | 'date' | 'empty';
+export type CellValue = string | number | boolean | null;
+export type ParsedRow = Record<string, CellValue>;
+
+export interface ColumnInfo {
+  name: string;
+  type: ColumnType;
+  missing: number; // Rows with no value for this column
+}
+
+export interface ParseIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  row?: number; // 1-based data row, when the issue is tied to one
+}
+
+export interface ParsedDataset {
+  fileName: string;
+  format: DatasetFormat;
+  columns: ColumnInfo[];
+  rows: ParsedRow[];
+  rowCount: number;
+  issues: ParseIssue[];
+}
+
+export const MAX_FILE_SIZE = (Number(import.meta.env.VITE_MAX_UPLOAD_MB) || 500) * 1024 * 1024;
+
+// Rows sent back from the parsing worker for previews; the full data stays in the worker
+export const MAX_PREVIEW_ROWS = 50;
+
+// Columns the prediction model expects (AI4I 2020 schema)
+export const REQUIRED_COLUMNS: { name: string; type: ColumnType }[] = [
+  { name: 'Type', type: 'string' },
+  { name: 'Air temperature [K]', type: 'number' },
+  { name: 'Process temperature [K]', type: 'number' },
+  { name: 'Rotational speed [rpm]', type: 'number' },
+  { name: 'Torque [Nm]', type: 'number' },
+  { name: 'Tool wear [min]', type: 'number' },
+];
+
+// Row-level problems beyond this are summarised instead of listed
+const MAX_LISTED_ISSUES = 20;
+
+export const detectFormat = (fileName: string): DatasetFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'csv':
+      return 'csv';
+    case 'json':
+      return 'json';
+    case 'xlsx':
+    case 'xls':
+      return 'excel';
+    default:
+      return null;
+  }
+};
+
+const isEmpty = (value: CellValue | undefined) => value === null || value === undefined || value === '';
+
+const isDateLike = (value: string) => /^\d{4}-\d{2}-\d{2}|^\d{1,2}[/.]\d{1,2}[/.]\d{2,4}/.test(value) && !Number.isNaN(Date.parse(value));
+
+const detectColumnType = (values: CellValue[]): ColumnType => {
+  const present = values.filter(value => !isEmpty(value));
+
+  if (present.length === 0) return 'empty';
+  if (present.every(value => typeof value === 'number')) return 'number';
+  if (present.every(value => typeof value === 'boolean')) return 'boolean';
+  if (present.every(value => typeof value === 'string' && isDateLike(value))) return 'date';
+  return 'string';
+};
+
+// Normalise whatever the format-specific reader produced into plain cell values
+const toCellValue = (value: unknown): CellValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+};
+
+const normaliseRows = (records: Record<string, unknown>[]): ParsedRow[] =>
+  records.map(record => {
+    const row: ParsedRow = {};
+    Object.entries(record).forEach(([key, value]) => {
+      row[key.trim()] = toCellValue(value);
+    });
+    return row;
+  });
+
+const parseCsv = (text: string) => {
+  const result = Papa.parse<Record<string, unknown>>(text, {
+    header: true,
+    dynamicTyping: true,
+    skipEmptyLines: 'greedy',
+  });
+
+  const issues: ParseIssue[] = result.errors.map(error => ({
+    severity: 'warning',
+    message: error.message,
+    row: error.row !== undefined ? error.row + 1 : undefined,
+  }));
+
+  return { rows: normaliseRows(result.data), issues };
+};
+
+const parseJson = (text: string) => {
+  const parsed = JSON.parse(text);
+
+  // Accept a bare array of records or an object wrapping one under "data"
+  const records = Array.isArray(parsed) ? parsed : parsed?.data;
+  if (!Array.isArray(records)) {
+    throw new Error('JSON file must contain an array of records (or an object with a "data" array)');
+  }
+
+  const objects = records.filter(record => record && typeof record === 'object' && !Array.isArray(record));
+  const issues: ParseIssue[] = objects.length < records.length
+    ? [{ severity: 'warning', message: `${records.length - objects.length} entries are not objects and were skipped` }]
+    : [];
+
+  return { rows: normaliseRows(objects), issues };
+};
+
+const parseExcel = (buffer: ArrayBuffer) => {
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheetName = workbook.SheetNames[0];
+
+  if (!sheetName) {
+    throw new Error('Workbook does not contain any sheets');
+  }
+
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], { defval: null });
+  const issues: ParseIssue[] = workbook.SheetNames.length > 1
+    ? [{ severity: 'warning', message: `Only the first sheet ("${sheetName}") is used` }]
+    : [];
+
+  return { rows: normaliseRows(records), issues };
+};
+
+export const describeColumns = (rows: ParsedRow[]): ColumnInfo[] => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+
+  // Preserve header order, including columns that only appear in later rows
+  rows.forEach(row => {
+    Object.keys(row).forEach(name => {
+      if (!seen.has(name)) {
+        seen.add(name);
+        names.push(name);
+      }
+    });
+  });
+
+  return names.map(name => {
+    const values = rows.map(row => row[name] ?? null);
+    return {
+      name,
+      type: detectColumnType(values),
+      missing: values.filter(isEmpty).length,
+    };
+  });
+};
+
+// Check a parsed dataset against what the prediction model needs
+export const validateDataset = (columns: ColumnInfo[], rows: ParsedRow[]): ParseIssue[] => {
+  const issues: ParseIssue[] = [];
+
+  if (rows.length === 0) {
+    issues.push({ severity: 'error', message: 'The file does not contain any data rows' });
+    return issues;
+  }
+
+  const missingColumns = REQUIRED_COLUMNS.filter(required => !columns.some(column => column.name === required.name));
+  if (missingColumns.length > 0) {
+    issues.push({
+      severity: 'error',
+      message: `Missing required columns: ${missingColumns.map(column => column.name).join(', ')}`,
+    });
+  }
+
+  REQUIRED_COLUMNS.forEach(required => {
+    const column = columns.find(c => c.name === required.name);
+    if (!column) return;
+
+    if (required.type === 'number' && column.type !== 'number' && column.type !== 'empty') {
+      const badRows = rows
+        .map((row, index) => ({ value: row[column.name], row: index + 1 }))
+        .filter(({ value }) => !isEmpty(value) && typeof value !== 'number');
+
+      badRows.slice(0, MAX_LISTED_ISSUES).forEach(({ value, row }) => {
+        issues.push({ severity: 'error', message: `"${column.name}" is not numeric: ${String(value)}`, row });
+      });
+      if (badRows.length > MAX_LISTED_ISSUES) {
+        issues.push({
+          severity: 'error',
+          message: `"${column.name}" has ${badRows.length - MAX_LISTED_ISSUES} more non-numeric values`,
+        });
+      }
+    }
+
+    if (column.missing > 0) {
+      issues.push({
+        severity: 'warning',
+        message: `"${column.name}" is empty in ${column.missing.toLocaleString()} rows`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+// Read and parse an uploaded file entirely in the browser. Only reading problems are
+// reported here; schema checks run after column mapping (see validateDataset)
+export const parseDatasetFile = async (file: File): Promise<ParsedDataset> => {
+  const format = detectFormat(file.name);
+  const empty: ParsedDataset = {
+    fileName: file.name,
+    format: format || 'csv',
+    columns: [],
+    rows: [],
+    rowCount: 0,
+    issues: [],
+  };
+
+  if (!format) {
+    return {
+      ...empty,
+      issues: [{ severity: 'error', message: 'Unsupported file type. Use CSV, JSON or Excel (.xlsx, .xls)' }],
+    };
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      ...empty,
+      issues: [{
+        severity: 'error',
+        message: `File is ${(file.size / (1024 * 1024)).toFixed(1)} MB, which exceeds the ${MAX_FILE_SIZE / (1024 * 1024)} MB limit`,
+      }],
+    };
+  }
+
+  try {
+    const { rows, issues } = format === 'excel'
+      ? parseExcel(await file.arrayBuffer())
+      : format === 'json'
+        ? parseJson(await file.text())
+        : parseCsv(await file.text());
+
+    const columns = describeColumns(rows);
+    const listedIssues = issues.slice(0, MAX_LISTED_ISSUES);
+    if (issues.length > MAX_LISTED_ISSUES) {
+      listedIssues.push({ severity: 'warning', message: `${issues.length - MAX_LISTED_ISSUES} more parse warnings` });
+    }
+
+    return {
+      ...empty,
+      columns,
+      rows,
+      rowCount: rows.length,
+      issues: listedIssues,
+    };
+  } catch (error) {
+    return {
+      ...empty,
+      issues: [{
+        severity: 'error',
+        message: `Could not parse file: ${error instanceof Error ? error.message : String(error)}`,
+      }],
+    };
+  }
+};
+
+export const hasBlockingIssues = (dataset: ParsedDataset) =>
+  dataset.issues.some(issue => issue.severity === 'error');
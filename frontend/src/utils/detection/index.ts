@@ -0,0 +1,114 @@
+// In-browser anomaly detection. Produces the same record shape as /predict so datasets can
+// be analysed offline or checked against the backend model. Records are assumed to be in
+// time order, which the rolling and change detection methods rely on.
+import type { PredictionRecord } from '../../services/api/types';
+import type { AnalysisOptions, AnalysisType } from '../../types/analysis';
+import { getFailureThreshold } from '../../types/analysis';
+import { getNumericFeatures } from '../predictions';
+import { mean } from './stats';
+import { cusumScores, ewmaScores, iqrScores, rollingZScores } from './univariate';
+import { isolationForestScores, mahalanobisScores } from './multivariate';
+
+export type DetectorName = 'zscore' | 'iqr' | 'ewma' | 'cusum' | 'mahalanobis' | 'isolationForest';
+
+export const DETECTOR_LABELS: Record<DetectorName, string> = {
+  zscore: 'Rolling z-score',
+  iqr: 'Interquartile range',
+  ewma: 'EWMA control chart',
+  cusum: 'CUSUM change detection',
+  mahalanobis: 'Mahalanobis distance',
+  isolationForest: 'Isolation forest',
+};
+
+// Detectors run for each analysis type
+export const DETECTORS_BY_TYPE: Record<AnalysisType, DetectorName[]> = {
+  univariate: ['zscore', 'iqr', 'ewma', 'cusum'],
+  multivariate: ['mahalanobis', 'isolationForest'],
+  correlation: ['mahalanobis'],
+  all: ['zscore', 'iqr', 'ewma', 'cusum', 'mahalanobis', 'isolationForest'],
+};
+
+const UNIVARIATE_DETECTORS: Partial<Record<DetectorName, (values: number[]) => number[]>> = {
+  zscore: rollingZScores,
+  iqr: iqrScores,
+  ewma: ewmaScores,
+  cusum: cusumScores,
+};
+
+const MULTIVARIATE_DETECTORS: Partial<Record<DetectorName, (rows: number[][]) => number[]>> = {
+  mahalanobis: mahalanobisScores,
+  isolationForest: isolationForestScores,
+};
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : NaN);
+
+// Per-record scores for one detector. A univariate detector scores every feature and a
+// record takes its worst feature.
+const runDetector = (detector: DetectorName, columns: number[][], rows: number[][]): number[] => {
+  const univariate = UNIVARIATE_DETECTORS[detector];
+  if (univariate) {
+    const featureScores = columns.map(values => univariate(values));
+    return rows.map((_, i) => Math.max(0, ...featureScores.map(scores => scores[i])));
+  }
+  return MULTIVARIATE_DETECTORS[detector]!(rows);
+};
+
+export const detectAnomalies = (records: PredictionRecord[], options: AnalysisOptions): PredictionRecord[] => {
+  if (records.length === 0) return [];
+
+  const features = getNumericFeatures(records[0]);
+  const columns = features.map(feature => records.map(record => toNumber(record[feature])));
+  // Multivariate methods need complete rows, so fill gaps with the feature's mean
+  const featureMeans = columns.map(values => mean(values.filter(Number.isFinite)));
+  const rows = records.map((_, i) =>
+    columns.map((values, j) => (Number.isFinite(values[i]) ? values[i] : featureMeans[j]))
+  );
+
+  const detectors = DETECTORS_BY_TYPE[options.analysisType];
+  const scores = detectors.map(detector => runDetector(detector, columns, rows));
+  const threshold = getFailureThreshold(options);
+
+  // Averaging keeps one detector's false alarm from flagging a record on its own
+  return records.map((record, i) => {
+    const probability = Number(mean(scores.map(detectorScores => detectorScores[i])).toFixed(4));
+    return {
+      ...record,
+      probability,
+      detector_scores: Object.fromEntries(
+        detectors.map((detector, d) => [detector, Number(scores[d][i].toFixed(4))])
+      ),
+      Prediction: probability >= threshold ? 'Failure' : 'No Failure',
+    };
+  });
+};
+
+// Add the in-browser verdict next to the model's, record by record
+export const crossCheckPredictions = (model: PredictionRecord[], local: PredictionRecord[]): PredictionRecord[] =>
+  model.map((record, i) => ({
+    ...record,
+    local_prediction: local[i]?.Prediction ?? null,
+    local_probability: local[i]?.probability ?? null,
+  }));
+
+export interface CrossCheckSummary {
+  compared: number;
+  agreed: number;
+  modelOnly: number; // Failures the model flagged that the detectors did not
+  localOnly: number; // Failures only the detectors flagged
+}
+
+// Null when the dataset was not cross-checked
+export const summarizeCrossCheck = (records: PredictionRecord[]): CrossCheckSummary | null => {
+  const checked = records.filter(record => typeof record.local_prediction === 'string');
+  if (checked.length === 0) return null;
+
+  let modelOnly = 0;
+  let localOnly = 0;
+  checked.forEach(record => {
+    const modelFailure = record.Prediction === 'Failure';
+    const localFailure = record.local_prediction === 'Failure';
+    if (modelFailure && !localFailure) modelOnly++;
+    if (localFailure && !modelFailure) localOnly++;
+  });
+  return { compared: checked.length, agreed: checked.length - modelOnly - localOnly, modelOnly, localOnly };
+};
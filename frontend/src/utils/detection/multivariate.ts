@@ -0,0 +1,165 @@
+// Detectors that score whole records across all features. Rows must not contain missing
+// values; the caller fills them in first.
+import { limitRatioToScore } from './stats';
+
+// Squared Mahalanobis distances beyond this chi-square quantile reach the alarm limit
+const MAHALANOBIS_CONFIDENCE_Z = 2.326; // Standard normal quantile for 99%
+
+// Wilson-Hilferty approximation of the chi-square quantile for `degrees` degrees of freedom
+const chiSquareQuantile = (degrees: number, z: number) => {
+  const term = 2 / (9 * degrees);
+  return degrees * Math.pow(1 - term + z * Math.sqrt(term), 3);
+};
+
+// Gauss-Jordan inverse; returns null for a singular matrix
+const invert = (matrix: number[][]): number[][] | null => {
+  const size = matrix.length;
+  const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row;
+    }
+    if (Math.abs(augmented[pivot][column]) < 1e-12) return null;
+    [augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]];
+
+    const divisor = augmented[column][column];
+    augmented[column] = augmented[column].map(value => value / divisor);
+    for (let row = 0; row < size; row++) {
+      if (row === column) continue;
+      const factor = augmented[row][column];
+      if (factor !== 0) {
+        augmented[row] = augmented[row].map((value, j) => value - factor * augmented[column][j]);
+      }
+    }
+  }
+  return augmented.map(row => row.slice(size));
+};
+
+// Distance from the centre of the data that accounts for how features vary together, so a
+// record can stand out through an unusual combination even when each value looks normal
+export const mahalanobisScores = (rows: number[][]): number[] => {
+  const count = rows.length;
+  const dimensions = rows[0]?.length ?? 0;
+  if (count < 2 || dimensions === 0) return rows.map(() => 0);
+
+  const centre = Array.from({ length: dimensions }, (_, j) => rows.reduce((sum, row) => sum + row[j], 0) / count);
+  const covariance = Array.from({ length: dimensions }, () => new Array<number>(dimensions).fill(0));
+  rows.forEach(row => {
+    for (let i = 0; i < dimensions; i++) {
+      const di = row[i] - centre[i];
+      for (let j = i; j < dimensions; j++) {
+        covariance[i][j] += di * (row[j] - centre[j]);
+      }
+    }
+  });
+  for (let i = 0; i < dimensions; i++) {
+    for (let j = i; j < dimensions; j++) {
+      covariance[i][j] /= count - 1;
+      covariance[j][i] = covariance[i][j];
+    }
+  }
+
+  // A little ridge keeps constant or perfectly correlated features from making it singular
+  const ridge = 1e-6 * (covariance.reduce((sum, row, i) => sum + row[i], 0) / dimensions || 1);
+  const inverse = invert(covariance.map((row, i) => row.map((value, j) => (i === j ? value + ridge : value))));
+  if (!inverse) return rows.map(() => 0);
+
+  const limit = chiSquareQuantile(dimensions, MAHALANOBIS_CONFIDENCE_Z);
+  return rows.map(row => {
+    const delta = row.map((value, j) => value - centre[j]);
+    let distance = 0;
+    for (let i = 0; i < dimensions; i++) {
+      for (let j = 0; j < dimensions; j++) {
+        distance += delta[i] * inverse[i][j] * delta[j];
+      }
+    }
+    return limitRatioToScore(Math.sqrt(Math.max(0, distance) / limit));
+  });
+};
+
+type IsolationNode =
+  | { feature: number; split: number; left: IsolationNode; right: IsolationNode }
+  | { size: number };
+
+export interface IsolationForestOptions {
+  trees?: number;
+  sampleSize?: number;
+  seed?: number;
+}
+
+// Isolation scores at which a record counts as anomalous; 0.5 is an average record
+const ISOLATION_LIMIT = 0.62;
+
+// Seeded so the same dataset always gets the same scores
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Average path length of an unsuccessful binary search tree lookup among `size` records
+const averagePathLength = (size: number) =>
+  size <= 1 ? 0 : size === 2 ? 1 : 2 * (Math.log(size - 1) + 0.5772156649) - (2 * (size - 1)) / size;
+
+const buildTree = (rows: number[][], depth: number, maxDepth: number, random: () => number): IsolationNode => {
+  if (depth >= maxDepth || rows.length <= 1) return { size: rows.length };
+
+  // Only split on features that still vary within this node
+  const dimensions = rows[0].length;
+  const candidates: { feature: number; min: number; max: number }[] = [];
+  for (let feature = 0; feature < dimensions; feature++) {
+    let min = Infinity;
+    let max = -Infinity;
+    rows.forEach(row => {
+      min = Math.min(min, row[feature]);
+      max = Math.max(max, row[feature]);
+    });
+    if (max > min) candidates.push({ feature, min, max });
+  }
+  if (candidates.length === 0) return { size: rows.length };
+
+  const { feature, min, max } = candidates[Math.floor(random() * candidates.length)];
+  const split = min + random() * (max - min);
+  return {
+    feature,
+    split,
+    left: buildTree(rows.filter(row => row[feature] < split), depth + 1, maxDepth, random),
+    right: buildTree(rows.filter(row => row[feature] >= split), depth + 1, maxDepth, random),
+  };
+};
+
+const pathLength = (row: number[], node: IsolationNode, depth = 0): number =>
+  'size' in node
+    ? depth + averagePathLength(node.size)
+    : pathLength(row, row[node.feature] < node.split ? node.left : node.right, depth + 1);
+
+// Isolation forest (Liu et al., 2008): anomalies are separated from the rest by fewer random splits
+export const isolationForestScores = (
+  rows: number[][],
+  { trees = 100, sampleSize = 256, seed = 42 }: IsolationForestOptions = {}
+): number[] => {
+  if (rows.length < 2) return rows.map(() => 0);
+
+  const random = createRandom(seed);
+  const size = Math.min(sampleSize, rows.length);
+  const maxDepth = Math.ceil(Math.log2(size));
+
+  const forest = Array.from({ length: trees }, () => {
+    const sample = Array.from({ length: size }, () => rows[Math.floor(random() * rows.length)]);
+    return buildTree(sample, 0, maxDepth, random);
+  });
+
+  const normaliser = averagePathLength(size);
+  return rows.map(row => {
+    const averagePath = forest.reduce((sum, tree) => sum + pathLength(row, tree), 0) / forest.length;
+    const isolation = Math.pow(2, -averagePath / normaliser);
+    return limitRatioToScore(Math.max(0, (isolation - 0.5) / (ISOLATION_LIMIT - 0.5)));
+  });
+};
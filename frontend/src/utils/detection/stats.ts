@@ -0,0 +1,46 @@
+// Small numeric helpers shared by the detectors and the dataset statistics
+
+// Typed arrays are accepted too, so large columns needn't be copied into plain arrays
+export const mean = (values: ArrayLike<number>) => {
+  if (values.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return sum / values.length;
+};
+
+// Sample standard deviation
+export const standardDeviation = (values: ArrayLike<number>, valuesMean = mean(values)) => {
+  if (values.length < 2) return 0;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += Math.pow(values[i] - valuesMean, 2);
+  return Math.sqrt(sum / (values.length - 1));
+};
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const quantile = (sorted: ArrayLike<number>, q: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Each detector reports how far a value is relative to its own alarm limit. Map that onto
+// 0-1 so detectors can be averaged and compared with the model's failure probability:
+// the limit itself scores 0.5, half of it scores about 0.05.
+export const limitRatioToScore = (ratio: number) =>
+  Number.isNaN(ratio) ? 0 : 1 / (1 + Math.exp(-(ratio - 1) * 6));
+
+// Deviation from an expected value in units of an allowed spread. A zero spread means any
+// difference at all is well past the limit.
+export const deviationRatio = (deviation: number, limit: number) =>
+  limit > 0 ? Math.abs(deviation) / limit : deviation === 0 ? 0 : 2;
+
+// Mean and spread of the first part of a series, taken as the in-control reference
+// for change detection
+export const baselineStats = (values: number[], baselineShare = 0.1, minimumSize = 30) => {
+  const size = Math.min(values.length, Math.max(minimumSize, Math.floor(values.length * baselineShare)));
+  const baseline = values.slice(0, size).filter(Number.isFinite);
+  const baselineMean = mean(baseline);
+  return { mean: baselineMean, std: standardDeviation(baseline, baselineMean) };
+};
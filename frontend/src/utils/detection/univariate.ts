@@ -0,0 +1,86 @@
+// Detectors that look at one feature at a time. Each takes the feature's values in record
+// order and returns a 0-1 score per record; missing values score 0.
+import { baselineStats, deviationRatio, limitRatioToScore, quantile } from './stats';
+
+// Records of history behind each rolling z-score, and the least history worth scoring
+const ROLLING_WINDOW = 50;
+const MIN_HISTORY = 10;
+const Z_LIMIT = 3;
+
+// Distance from the mean of the preceding window, in standard deviations
+export const rollingZScores = (values: number[], window = ROLLING_WINDOW): number[] => {
+  const history: number[] = [];
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  return values.map(value => {
+    if (!Number.isFinite(value)) return 0;
+
+    let score = 0;
+    if (history.length >= MIN_HISTORY) {
+      const windowMean = sum / history.length;
+      const variance = Math.max(0, (sumOfSquares - history.length * windowMean * windowMean) / (history.length - 1));
+      score = limitRatioToScore(deviationRatio(value - windowMean, Z_LIMIT * Math.sqrt(variance)));
+    }
+
+    history.push(value);
+    sum += value;
+    sumOfSquares += value * value;
+    if (history.length > window) {
+      const dropped = history.shift()!;
+      sum -= dropped;
+      sumOfSquares -= dropped * dropped;
+    }
+    return score;
+  });
+};
+
+// Tukey fences: anything 1.5 interquartile ranges outside the middle half reaches the limit
+export const iqrScores = (values: number[]): number[] => {
+  const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+
+  return values.map(value => {
+    if (!Number.isFinite(value)) return 0;
+    const beyond = value > q3 ? value - q3 : value < q1 ? q1 - value : 0;
+    return limitRatioToScore(deviationRatio(beyond, fence));
+  });
+};
+
+// Exponentially weighted moving average control chart, sensitive to small sustained shifts
+export const ewmaScores = (values: number[], lambda = 0.2, limitWidth = 3): number[] => {
+  const { mean, std } = baselineStats(values);
+  const limit = limitWidth * std * Math.sqrt(lambda / (2 - lambda));
+  let average = mean;
+
+  return values.map(value => {
+    if (!Number.isFinite(value)) return 0;
+    average = lambda * value + (1 - lambda) * average;
+    return limitRatioToScore(deviationRatio(average - mean, limit));
+  });
+};
+
+// Two-sided tabular CUSUM in standard deviations. Sums restart after an alarm so each
+// shift is reported where it starts rather than for the rest of the series.
+export const cusumScores = (values: number[], slack = 0.5, decisionLimit = 5): number[] => {
+  const { mean, std } = baselineStats(values);
+  let upper = 0;
+  let lower = 0;
+
+  return values.map(value => {
+    if (!Number.isFinite(value)) return 0;
+
+    const deviation = std > 0 ? (value - mean) / std : value === mean ? 0 : decisionLimit * 2;
+    upper = Math.max(0, upper + deviation - slack);
+    lower = Math.max(0, lower - deviation - slack);
+
+    const ratio = Math.max(upper, lower) / decisionLimit;
+    if (ratio >= 1) {
+      upper = 0;
+      lower = 0;
+    }
+    return limitRatioToScore(ratio);
+  });
+};
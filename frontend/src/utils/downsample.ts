@@ -0,0 +1,53 @@
+// Largest-Triangle-Three-Buckets (Steinarsson, 2013). Picks `threshold` points from
+// [start, end) that keep the visual shape of the line, and returns their indices.
+export const lttb = (
+  xs: ArrayLike<number>,
+  ys: ArrayLike<number>,
+  threshold: number,
+  start = 0,
+  end = xs.length
+): number[] => {
+  const count = end - start;
+  if (count <= 0) return [];
+  if (count <= threshold) return Array.from({ length: count }, (_, i) => start + i);
+  if (threshold < 3) return [start, end - 1].slice(0, Math.max(threshold, 0));
+
+  const selected = [start];
+  const bucketSize = (count - 2) / (threshold - 2);
+  let previous = start;
+
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = start + Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(start + Math.floor((bucket + 2) * bucketSize) + 1, end);
+    let averageX = 0;
+    let averageY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      averageX += xs[i];
+      averageY += ys[i];
+    }
+    const nextCount = Math.max(nextEnd - nextStart, 1);
+    averageX /= nextCount;
+    averageY /= nextCount;
+
+    // Keep the point in this bucket that spans the largest triangle
+    const bucketStart = start + Math.floor(bucket * bucketSize) + 1;
+    const bucketEnd = start + Math.floor((bucket + 1) * bucketSize) + 1;
+    let largestArea = -1;
+    let chosen = bucketStart;
+    for (let i = bucketStart; i < bucketEnd; i++) {
+      const area = Math.abs(
+        (xs[previous] - averageX) * (ys[i] - ys[previous]) - (xs[previous] - xs[i]) * (averageY - ys[previous])
+      );
+      if (area > largestArea) {
+        largestArea = area;
+        chosen = i;
+      }
+    }
+    selected.push(chosen);
+    previous = chosen;
+  }
+
+  selected.push(end - 1);
+  return selected;
+};
@@ -0,0 +1,161 @@
+import type { PredictionRecord } from '../services/api/types';
+import { PROFILE_QUANTILES } from '../types/drift';
+import type { BaselineProfile, DriftLevel, DriftReport, FeatureDrift, FeatureProfile } from '../types/drift';
+import { kolmogorovPValue } from './datasetComparison';
+import { mean, quantile, standardDeviation } from './detection/stats';
+import { getNumericFeatures } from './predictions';
+import { lowerBound } from './series';
+
+// Usual PSI reading: below 0.1 is stable, above 0.25 has shifted enough to matter
+const PSI_MODERATE = 0.1;
+const PSI_SIGNIFICANT = 0.25;
+// Share of values outside anything seen in the baseline, e.g. from a new or recalibrated sensor
+const OUT_OF_RANGE_MODERATE = 0.01;
+const OUT_OF_RANGE_SIGNIFICANT = 0.05;
+// Keeps empty bins from making PSI infinite
+const MIN_BIN_SHARE = 1e-4;
+
+const DRIFT_LEVELS: DriftLevel[] = ['none', 'moderate', 'significant'];
+
+const worstLevel = (levels: DriftLevel[]) =>
+  DRIFT_LEVELS[Math.max(0, ...levels.map(level => DRIFT_LEVELS.indexOf(level)))];
+
+const sortedValues = (records: PredictionRecord[], feature: string) => {
+  const values: number[] = [];
+  records.forEach(record => {
+    const value = record[feature];
+    if (typeof value === 'number' && Number.isFinite(value)) values.push(value);
+  });
+  return Float64Array.from(values).sort();
+};
+
+// First index whose value is above `value`
+const upperBound = (values: ArrayLike<number>, value: number) => {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (values[middle] <= value) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// Share of the baseline at or below `value` (strictly below when not inclusive), treating
+// it as linear between deciles; repeated deciles are a point mass
+const profileCdf = (profile: FeatureProfile, value: number, inclusive = true) => {
+  const { quantiles } = profile;
+  const last = quantiles.length - 1;
+  if (inclusive ? value < quantiles[0] : value <= quantiles[0]) return 0;
+  if (inclusive ? value >= quantiles[last] : value > quantiles[last]) return 1;
+  const i = (inclusive ? upperBound(quantiles, value) : lowerBound(quantiles, value)) - 1;
+  const fraction = (value - quantiles[i]) / (quantiles[i + 1] - quantiles[i]);
+  return PROFILE_QUANTILES[i] + fraction * (PROFILE_QUANTILES[i + 1] - PROFILE_QUANTILES[i]);
+};
+
+const profileFeature = (sorted: Float64Array): FeatureProfile => {
+  const featureMean = mean(sorted);
+  return {
+    count: sorted.length,
+    mean: featureMean,
+    std: standardDeviation(sorted, featureMean),
+    quantiles: PROFILE_QUANTILES.map(p => quantile(sorted, p)),
+  };
+};
+
+// Summarises every numeric feature of a dataset so later uploads can be checked against it
+export const buildBaselineProfile = (records: PredictionRecord[], name: string, datasetId?: string): BaselineProfile => {
+  const features: Record<string, FeatureProfile> = {};
+  if (records.length > 0) {
+    getNumericFeatures(records[0]).forEach(feature => {
+      const sorted = sortedValues(records, feature);
+      if (sorted.length > 0) features[feature] = profileFeature(sorted);
+    });
+  }
+  return { name, datasetId, createdAt: new Date().toISOString(), features };
+};
+
+// PSI over the baseline's decile bins; bins are (edge before, edge] so point masses stay together
+const populationStabilityIndex = (sorted: Float64Array, profile: FeatureProfile) => {
+  const edges = Array.from(new Set(profile.quantiles.slice(1, -1)));
+  const counts = new Array<number>(edges.length + 1).fill(0);
+  sorted.forEach(value => counts[lowerBound(edges, value)]++);
+
+  let psi = 0;
+  let previous = 0;
+  counts.forEach((count, bin) => {
+    const cumulative = bin < edges.length ? profileCdf(profile, edges[bin]) : 1;
+    const expected = Math.max(cumulative - previous, MIN_BIN_SHARE);
+    const actual = Math.max(count / sorted.length, MIN_BIN_SHARE);
+    psi += (actual - expected) * Math.log(actual / expected);
+    previous = cumulative;
+  });
+  return psi;
+};
+
+// One-sample Kolmogorov–Smirnov test against the baseline's distribution
+const ksAgainstProfile = (sorted: Float64Array, profile: FeatureProfile) => {
+  const n = sorted.length;
+  let statistic = 0;
+  let i = 0;
+  while (i < n) {
+    let j = i;
+    while (j < n && sorted[j] === sorted[i]) j++;
+    // Compare both sides of the step the upload's CDF takes at this value
+    statistic = Math.max(
+      statistic,
+      Math.abs(i / n - profileCdf(profile, sorted[i], false)),
+      Math.abs(j / n - profileCdf(profile, sorted[i]))
+    );
+    i = j;
+  }
+  const root = Math.sqrt(n);
+  return { statistic, pValue: kolmogorovPValue((root + 0.12 + 0.11 / root) * statistic) };
+};
+
+const getLevel = (psi: number, outOfRangeShare: number): DriftLevel => {
+  if (psi >= PSI_SIGNIFICANT || outOfRangeShare >= OUT_OF_RANGE_SIGNIFICANT) return 'significant';
+  if (psi >= PSI_MODERATE || outOfRangeShare >= OUT_OF_RANGE_MODERATE) return 'moderate';
+  return 'none';
+};
+
+// How far each feature the baseline knows has moved. PSI and out-of-range values set the
+// level; the KS test is reported but not used, since big uploads make any shift significant.
+export const detectDrift = (records: PredictionRecord[], baseline: BaselineProfile): DriftReport => {
+  const uploaded = records.length > 0 ? getNumericFeatures(records[0]) : [];
+  const features: FeatureDrift[] = [];
+
+  uploaded.forEach(feature => {
+    const profile = baseline.features[feature];
+    if (!profile) return;
+    const sorted = sortedValues(records, feature);
+    if (sorted.length === 0) return;
+
+    const min = profile.quantiles[0];
+    const max = profile.quantiles[profile.quantiles.length - 1];
+    const outOfRange = lowerBound(sorted, min) + (sorted.length - upperBound(sorted, max));
+    const psi = populationStabilityIndex(sorted, profile);
+    const ks = ksAgainstProfile(sorted, profile);
+
+    features.push({
+      feature,
+      psi,
+      ksStatistic: ks.statistic,
+      ksPValue: ks.pValue,
+      outOfRange,
+      count: sorted.length,
+      baselineMean: profile.mean,
+      mean: mean(sorted),
+      level: getLevel(psi, outOfRange / sorted.length),
+    });
+  });
+
+  features.sort((a, b) => DRIFT_LEVELS.indexOf(b.level) - DRIFT_LEVELS.indexOf(a.level) || b.psi - a.psi);
+  return {
+    baselineName: baseline.name,
+    level: worstLevel(features.map(item => item.level)),
+    features,
+    missingFeatures: Object.keys(baseline.features).filter(feature => !uploaded.includes(feature)),
+    newFeatures: uploaded.filter(feature => !baseline.features[feature]),
+  };
+};
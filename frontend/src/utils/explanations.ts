@@ -0,0 +1,108 @@
+import type { PredictionRecord } from '../services/api/types';
+import { getNumericFeatures } from './predictions';
+
+// How much one feature pushed a record toward (positive) or away from (negative) failure
+export interface FeatureContribution {
+  feature: string;
+  value: number;
+  baseline: number; // Mean over records predicted as normal
+  contribution: number;
+}
+
+export interface RecordExplanation {
+  source: 'model' | 'zscore';
+  contributions: FeatureContribution[]; // Largest effect first
+}
+
+// Mean and spread of a feature among normal records, and which side failures fall on
+export interface FeatureBaseline {
+  mean: number;
+  std: number;
+  direction: number; // 1 when failures run high, -1 when they run low, 0 when unknown
+}
+
+const mean = (values: number[]) =>
+  values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const computeFeatureBaselines = (records: PredictionRecord[]): Record<string, FeatureBaseline> => {
+  if (records.length === 0) return {};
+
+  const normal = records.filter(record => record.Prediction !== 'Failure');
+  const failures = records.filter(record => record.Prediction === 'Failure');
+  // With no normal records left, compare against the whole dataset instead
+  const reference = normal.length > 0 ? normal : records;
+
+  const baselines: Record<string, FeatureBaseline> = {};
+  getNumericFeatures(records[0]).forEach(feature => {
+    const values = reference.map(record => record[feature] as number);
+    const featureMean = mean(values);
+    const variance = mean(values.map(value => Math.pow(value - featureMean, 2)));
+    const failureMean = mean(failures.map(record => record[feature] as number));
+
+    baselines[feature] = {
+      mean: featureMean,
+      std: Math.sqrt(variance),
+      direction: failures.length === 0 || failureMean === featureMean ? 0 : Math.sign(failureMean - featureMean),
+    };
+  });
+  return baselines;
+};
+
+// Use the backend's attributions when it sent them, otherwise score each feature by how
+// many standard deviations it sits from normal, signed by the side failures fall on
+export const explainRecord = (
+  record: PredictionRecord,
+  baselines: Record<string, FeatureBaseline>
+): RecordExplanation => {
+  const features = Object.keys(baselines).filter(feature => typeof record[feature] === 'number');
+  const attributions = record.attributions;
+  const hasAttributions = !!attributions && features.some(feature => typeof attributions[feature] === 'number');
+
+  const contributions = features.map(feature => {
+    const value = record[feature] as number;
+    const { mean: baseline, std, direction } = baselines[feature];
+
+    let contribution: number;
+    if (hasAttributions) {
+      contribution = attributions[feature] ?? 0;
+    } else {
+      const zScore = std === 0 ? 0 : (value - baseline) / std;
+      contribution = direction === 0 ? Math.abs(zScore) : zScore * direction;
+    }
+    return { feature, value, baseline, contribution };
+  });
+
+  contributions.sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  return { source: hasAttributions ? 'model' : 'zscore', contributions };
+};
+
+export interface FeatureImportance {
+  name: string;
+  value: number; // Share of the total, so every feature's values sum to 1
+}
+
+// Simulated feature importance, since the model doesn't report one: how far apart a feature's
+// anomalous and normal records sit relative to their spread. Largest first.
+export const computeFeatureImportance = (records: PredictionRecord[], isAnomaly: boolean[]): FeatureImportance[] => {
+  if (records.length === 0) return [];
+
+  const importances = getNumericFeatures(records[0]).map(feature => {
+    const normalValues = records.filter((_, i) => !isAnomaly[i]).map(record => record[feature] as number);
+    const anomalyValues = records.filter((_, i) => isAnomaly[i]).map(record => record[feature] as number);
+
+    const normalMean = mean(normalValues);
+    const anomalyMean = mean(anomalyValues);
+    const normalVariance = mean(normalValues.map(value => Math.pow(value - normalMean, 2)));
+    const anomalyVariance = mean(anomalyValues.map(value => Math.pow(value - anomalyMean, 2)));
+
+    // Higher difference in means and lower variances indicate a more important feature
+    const meanDifference = Math.abs(normalMean - anomalyMean);
+    const varianceSum = normalVariance + anomalyVariance;
+    return { name: feature, value: varianceSum === 0 ? meanDifference : meanDifference / Math.sqrt(varianceSum) };
+  });
+
+  const totalScore = importances.reduce((sum, item) => sum + item.value, 0);
+  return importances
+    .map(item => ({ name: item.name, value: totalScore === 0 ? 0 : item.value / totalScore }))
+    .sort((a, b) => b.value - a.value);
+};
@@ -0,0 +1,160 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import type { ColumnSource } from 'hyparquet-writer';
+import type { PredictionRecord } from '../services/api/types';
+import type { EquipmentStatus } from '../types/dashboard';
+import { computeFeatureBaselines, explainRecord } from './explanations';
+import { getNumericFeatures } from './predictions';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx' | 'parquet';
+// Which score bands to export: everything, warnings and anomalies, or anomalies only
+export type ExportStatusFilter = 'all' | 'flagged' | 'anomaly';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  xlsx: 'Excel (.xlsx)',
+  parquet: 'Parquet',
+};
+
+export const EXPORT_STATUS_LABELS: Record<ExportStatusFilter, string> = {
+  all: 'All records',
+  flagged: 'Warnings and anomalies',
+  anomaly: 'Anomalies only',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  parquet: 'application/vnd.apache.parquet',
+};
+
+// One sheet's rows, less the header
+const MAX_XLSX_ROWS = 1048575;
+
+export interface ExportOptions {
+  statusFilter: ExportStatusFilter;
+  start: number; // Dataset records [start, end)
+  end: number;
+  features: string[]; // Sensor columns to keep; the others are left out
+  includeExplanations: boolean;
+}
+
+export type ExportValue = string | number | boolean | null;
+export type ExportRow = Record<string, ExportValue>;
+
+export const matchesStatusFilter = (status: EquipmentStatus, filter: ExportStatusFilter) =>
+  filter === 'all' || status === 'anomaly' || (filter === 'flagged' && status === 'warning');
+
+const toExportValue = (value: unknown): ExportValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+
+// Flat rows for the records that pass the filter. Lists are joined with ';' and objects
+// such as detector_scores become one column per key, so every format gets the same columns.
+// `Prediction` stays the model's verdict from the upload; `score_band` is the status from
+// the Dashboard's current score bands, which is also what the filter matches.
+export const buildExportRows = (
+  records: PredictionRecord[],
+  statuses: EquipmentStatus[],
+  options: ExportOptions
+): ExportRow[] => {
+  if (records.length === 0) return [];
+  const excluded = new Set(getNumericFeatures(records[0]).filter(feature => !options.features.includes(feature)));
+  const baselines = options.includeExplanations ? computeFeatureBaselines(records) : null;
+  const rows: ExportRow[] = [];
+
+  for (let i = options.start; i < Math.min(options.end, records.length); i++) {
+    if (!matchesStatusFilter(statuses[i], options.statusFilter)) continue;
+    const record = records[i];
+    const row: ExportRow = { record: i + 1 };
+
+    Object.entries(record).forEach(([key, value]) => {
+      if (excluded.has(key) || (baselines && key === 'attributions')) return;
+      if (Array.isArray(value)) {
+        row[key] = value.join(';');
+      } else if (value && typeof value === 'object') {
+        Object.entries(value).forEach(([name, nested]) => {
+          if (!excluded.has(name)) row[`${key}.${name}`] = toExportValue(nested);
+        });
+      } else {
+        row[key] = toExportValue(value);
+      }
+    });
+    row.score_band = statuses[i];
+
+    // The model's attributions when it sent them, otherwise distance from normal
+    if (baselines) {
+      const explanation = explainRecord(record, baselines);
+      row.explanation_source = explanation.source;
+      explanation.contributions.forEach(({ feature, contribution }) => {
+        if (!excluded.has(feature)) row[`contribution.${feature}`] = Number(contribution.toFixed(4));
+      });
+    }
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Every column that appears in any row, in first-seen order
+const getColumns = (rows: ExportRow[]) => {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => columns.add(column)));
+  return [...columns];
+};
+
+const toParquet = (rows: ExportRow[], columns: string[]): ArrayBuffer => {
+  const columnData: ColumnSource[] = columns.map(name => {
+    const values = rows.map(row => row[name] ?? null);
+    const present = values.filter(value => value !== null);
+    if (name === 'timestamp' && present.every(value => typeof value === 'string' && Number.isFinite(Date.parse(value)))) {
+      return { name, data: values.map(value => (value === null ? null : new Date(value as string))), type: 'TIMESTAMP', nullable: true };
+    }
+    if (present.length > 0 && present.every(value => typeof value === 'number')) {
+      return { name, data: values, type: 'DOUBLE', nullable: true };
+    }
+    if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+      return { name, data: values, type: 'BOOLEAN', nullable: true };
+    }
+    return { name, data: values.map(value => (value === null ? null : String(value))), type: 'STRING', nullable: true };
+  });
+  return parquetWriteBuffer({ columnData });
+};
+
+const toXlsx = (rows: ExportRow[], columns: string[]): ArrayBuffer => {
+  if (rows.length > MAX_XLSX_ROWS) {
+    throw new Error(`Excel sheets hold at most ${MAX_XLSX_ROWS.toLocaleString()} rows. Narrow the filter or export CSV or Parquet instead.`);
+  }
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows, { header: columns }), 'Results');
+  return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+};
+
+export const exportRows = (rows: ExportRow[], format: ExportFormat): Blob => {
+  const columns = getColumns(rows);
+  switch (format) {
+    case 'csv':
+      return new Blob([Papa.unparse(rows, { columns })], { type: MIME_TYPES.csv });
+    case 'json':
+      return new Blob([JSON.stringify(rows, null, 2)], { type: MIME_TYPES.json });
+    case 'xlsx':
+      return new Blob([toXlsx(rows, columns)], { type: MIME_TYPES.xlsx });
+    case 'parquet':
+      return new Blob([toParquet(rows, columns)], { type: MIME_TYPES.parquet });
+  }
+};
+
+// e.g. "Line 3 sensors (anomalies).csv" -> "Line-3-sensors-anomalies"
+export const toFileStem = (name: string) =>
+  name.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'results';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url));
+};
@@ -0,0 +1,38 @@
+import type { PredictionRecord } from '../services/api/types';
+
+// AI4I 2020 failure modes. A record can have several at once.
+export type FailureMode = 'TWF' | 'HDF' | 'PWF' | 'OSF' | 'RNF';
+
+export const FAILURE_MODES: { mode: FailureMode; label: string; color: string; action: string }[] = [
+  { mode: 'TWF', label: 'Tool wear failure', color: '#8B5CF6', action: 'Replace the tool' },
+  { mode: 'HDF', label: 'Heat dissipation failure', color: '#F97316', action: 'Check cooling and spindle speed' },
+  { mode: 'PWF', label: 'Power failure', color: '#EAB308', action: 'Check drive power and load' },
+  { mode: 'OSF', label: 'Overstrain failure', color: '#EF4444', action: 'Reduce torque or replace the tool' },
+  { mode: 'RNF', label: 'Random failure', color: '#6B7280', action: 'Inspect the machine' },
+];
+
+// Anomalies the model did not attribute to any mode
+export const UNSPECIFIED_MODE = 'Unspecified';
+
+const MODE_NAMES = new Set<string>(FAILURE_MODES.map(({ mode }) => mode));
+
+export const isFailureMode = (value: unknown): value is FailureMode =>
+  typeof value === 'string' && MODE_NAMES.has(value);
+
+export const getFailureModeInfo = (mode: FailureMode) =>
+  FAILURE_MODES.find(info => info.mode === mode)!;
+
+// Modes come either as a `failure_modes` list or as AI4I-style 0/1 columns
+export const getFailureModes = (record: PredictionRecord): FailureMode[] => {
+  if (Array.isArray(record.failure_modes)) {
+    return record.failure_modes.filter(isFailureMode);
+  }
+  return FAILURE_MODES
+    .map(({ mode }) => mode)
+    .filter(mode => record[mode] === 1 || record[mode] === true || record[mode] === '1');
+};
+
+// Columns that hold labels rather than sensor features
+export const LABEL_COLUMNS = new Set<string>([
+  'Prediction', 'probability', 'Machine failure', 'UDI', 'local_prediction', 'local_probability', ...MODE_NAMES,
+]);
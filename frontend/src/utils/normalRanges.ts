@@ -0,0 +1,70 @@
+import type { PredictionRecord } from '../services/api/types';
+import type { NormalRange, NormalRangeConfig } from '../types/normalRanges';
+import { mean, quantile, standardDeviation } from './detection/stats';
+
+// Fewest normal records a machine Type needs before it gets a band of its own
+const MIN_TYPE_RECORDS = 30;
+
+// Bands for one parameter: across all records, and per machine Type where there is enough data
+export interface LearnedRange {
+  overall: NormalRange;
+  byType: Record<string, NormalRange>;
+}
+
+type RangeSettings = Pick<NormalRangeConfig, 'method' | 'percentile' | 'sigma' | 'byType'>;
+
+const learnRange = (values: number[], settings: RangeSettings): NormalRange => {
+  if (values.length === 0) return { min: 0, max: 0 };
+
+  if (settings.method === 'sigma') {
+    const valuesMean = mean(values);
+    const spread = settings.sigma * standardDeviation(values, valuesMean);
+    return { min: valuesMean - spread, max: valuesMean + spread };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const tail = settings.percentile / 100;
+  return { min: quantile(sorted, tail), max: quantile(sorted, 1 - tail) };
+};
+
+// Learned from the records the model called normal, so failures don't widen the band.
+// Falls back to every record when none are labelled normal.
+export const learnNormalRanges = (
+  records: PredictionRecord[],
+  features: string[],
+  settings: RangeSettings
+): Record<string, LearnedRange> => {
+  const normal = records.filter(record => record.Prediction !== 'Failure');
+  const training = normal.length > 0 ? normal : records;
+
+  const types = new Map<string, PredictionRecord[]>();
+  if (settings.byType) {
+    training.forEach(record => {
+      if (typeof record.Type !== 'string') return;
+      const group = types.get(record.Type) || [];
+      group.push(record);
+      types.set(record.Type, group);
+    });
+  }
+
+  const valuesOf = (group: PredictionRecord[], feature: string) =>
+    group.map(record => record[feature]).filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+
+  return Object.fromEntries(features.map(feature => {
+    const byType: Record<string, NormalRange> = {};
+    types.forEach((group, type) => {
+      if (group.length >= MIN_TYPE_RECORDS) byType[type] = learnRange(valuesOf(group, feature), settings);
+    });
+    return [feature, { overall: learnRange(valuesOf(training, feature), settings), byType }];
+  }));
+};
+
+// A user override wins, then the band for the record's Type, then the overall band
+export const getNormalRange = (
+  learned: LearnedRange,
+  override: NormalRange | undefined,
+  type?: unknown
+): NormalRange =>
+  override || (typeof type === 'string' && learned.byType[type]) || learned.overall;
+
+export const isOutsideRange = (value: number, range: NormalRange) => value < range.min || value > range.max;
@@ -0,0 +1,56 @@
+import { DEFAULT_ANALYSIS_OPTIONS, getFailureThreshold } from '../types/analysis';
+import type { AnalysisOptions } from '../types/analysis';
+import type { EquipmentStatus } from '../types/dashboard';
+import type { PredictionRecord, PredictOptions } from '../services/api/types';
+import { LABEL_COLUMNS } from './failureModes';
+
+// Request fields for the chosen analysis options
+export const toPredictOptions = (options: AnalysisOptions): PredictOptions => ({
+  sensitivity: options.sensitivity,
+  analysis_type: options.analysisType,
+  report_detail: options.reportDetail,
+  threshold: getFailureThreshold(options),
+});
+
+// Relabel records from their failure probability. The backend may ignore the
+// requested threshold, so it is applied again here wherever a probability came back.
+export const applyFailureThreshold = (records: PredictionRecord[], options: AnalysisOptions): PredictionRecord[] => {
+  const threshold = getFailureThreshold(options);
+  return records.map(record =>
+    typeof record.probability === 'number'
+      ? { ...record, Prediction: record.probability >= threshold ? 'Failure' : 'No Failure' }
+      : record
+  );
+};
+
+// Probability cut-offs that split records into normal / warning / anomaly
+export interface ScoreBands {
+  warning: number;
+  anomaly: number;
+}
+
+// Share of the anomaly threshold where the warning band starts by default
+const WARNING_BAND_RATIO = 0.6;
+
+export const getDefaultScoreBands = (options?: AnalysisOptions): ScoreBands => {
+  const anomaly = getFailureThreshold(options || DEFAULT_ANALYSIS_OPTIONS);
+  return { warning: Number((anomaly * WARNING_BAND_RATIO).toFixed(2)), anomaly };
+};
+
+// Older backends only send the label, which maps to a score of 0 or 1
+export const getFailureScore = (record: PredictionRecord) =>
+  typeof record.probability === 'number' ? record.probability : record.Prediction === 'Failure' ? 1 : 0;
+
+export const hasFailureScores = (records: PredictionRecord[]) =>
+  records.some(record => typeof record.probability === 'number');
+
+export const classifyScore = (score: number, bands: ScoreBands): EquipmentStatus =>
+  score >= bands.anomaly ? 'anomaly' : score >= bands.warning ? 'warning' : 'normal';
+
+// Sensor columns: numbers that aren't the Type category or one of the model's labels
+export const getNumericFeatures = (record: PredictionRecord) =>
+  Object.keys(record).filter(key =>
+    key !== 'Type' &&
+    !LABEL_COLUMNS.has(key) &&
+    typeof record[key] === 'number'
+  );
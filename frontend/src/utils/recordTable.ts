@@ -0,0 +1,142 @@
+import type { PredictionRecord } from '../services/api/types';
+import type { EquipmentStatus, ParameterSeries } from '../types/dashboard';
+import { SERIES_STATUSES } from './series';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface RecordSort {
+  column: string;
+  direction: SortDirection;
+}
+
+// Inclusive bounds; null leaves that side open
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface RecordFilters {
+  search: string;
+  ranges: Record<string, NumberRange>; // By numeric column key
+  type: string | null;
+  prediction: string | null;
+  status: EquipmentStatus | null;
+}
+
+// Sort keys of the columns that aren't features
+export const RECORD_COLUMN = 'record';
+export const TIME_COLUMN = 'time';
+export const SCORE_COLUMN = 'score';
+export const TYPE_COLUMN = 'Type';
+export const PREDICTION_COLUMN = 'Prediction';
+export const STATUS_COLUMN = 'status';
+
+// The dataset column by column, so filtering and sorting a million records stays quick
+export interface RecordTableData {
+  count: number;
+  hasTimestamps: boolean;
+  times: Float64Array;
+  numbers: Record<string, Float64Array>; // Each feature, plus the failure score
+  types: string[];
+  predictions: string[];
+  statuses: Uint8Array;
+  failureModes: string[][];
+}
+
+// Dataset parameters share times, statuses and scores, so one series supplies them
+export const buildRecordTableData = (
+  records: PredictionRecord[],
+  reference: ParameterSeries,
+  features: Record<string, Float64Array>
+): RecordTableData => ({
+  count: records.length,
+  hasTimestamps: reference.hasTimestamps,
+  times: reference.times,
+  numbers: { ...features, [SCORE_COLUMN]: reference.scores },
+  types: records.map(record => (typeof record.Type === 'string' ? record.Type : '')),
+  predictions: records.map(record => (typeof record.Prediction === 'string' ? record.Prediction : '')),
+  statuses: reference.statuses,
+  failureModes: reference.failureModes,
+});
+
+// Distinct values of a text column, for filter dropdowns
+export const getDistinctValues = (values: string[]) =>
+  [...new Set(values)].filter(value => value !== '').sort();
+
+export const formatRecordTime = (data: RecordTableData, index: number) =>
+  data.hasTimestamps ? new Date(data.times[index]).toLocaleString() : '';
+
+// Text the search box looks through for one record
+const getSearchText = (data: RecordTableData, index: number) => [
+  index + 1,
+  data.types[index],
+  data.predictions[index],
+  SERIES_STATUSES[data.statuses[index]],
+  data.failureModes[index].join(' '),
+  formatRecordTime(data, index),
+].join(' ').toLowerCase();
+
+// Formatting a million dates takes seconds, so each table's search text is built on its
+// first search and kept for as long as the table data is
+const searchTextCache = new WeakMap<RecordTableData, string[]>();
+
+const getSearchTexts = (data: RecordTableData) => {
+  let texts = searchTextCache.get(data);
+  if (!texts) {
+    texts = Array.from({ length: data.count }, (_, i) => getSearchText(data, i));
+    searchTextCache.set(data, texts);
+  }
+  return texts;
+};
+
+export const filterRecordIndices = (data: RecordTableData, filters: RecordFilters): number[] => {
+  const search = filters.search.trim().toLowerCase();
+  const statusCode = filters.status ? SERIES_STATUSES.indexOf(filters.status) : -1;
+  const ranges = Object.entries(filters.ranges)
+    .filter(([column, range]) => data.numbers[column] && (range.min !== null || range.max !== null))
+    .map(([column, range]) => ({ values: data.numbers[column], ...range }));
+  const searchTexts = search ? getSearchTexts(data) : null;
+
+  const indices: number[] = [];
+  for (let i = 0; i < data.count; i++) {
+    if (statusCode !== -1 && data.statuses[i] !== statusCode) continue;
+    if (filters.type !== null && data.types[i] !== filters.type) continue;
+    if (filters.prediction !== null && data.predictions[i] !== filters.prediction) continue;
+    if (ranges.some(({ values, min, max }) =>
+      !Number.isFinite(values[i]) || (min !== null && values[i] < min) || (max !== null && values[i] > max)
+    )) continue;
+    if (searchTexts && !searchTexts[i].includes(search)) continue;
+    indices.push(i);
+  }
+  return indices;
+};
+
+// Sorts in place and returns the indices. Missing numbers always go last.
+export const sortRecordIndices = (indices: number[], data: RecordTableData, sort: RecordSort | null): number[] => {
+  if (!sort) return indices;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  const compareNumbers = (values: ArrayLike<number>) => (a: number, b: number) => {
+    const aMissing = !Number.isFinite(values[a]);
+    const bMissing = !Number.isFinite(values[b]);
+    if (aMissing || bMissing) return aMissing === bMissing ? a - b : aMissing ? 1 : -1;
+    return (values[a] - values[b]) * sign || a - b;
+  };
+  const compareText = (values: string[]) => (a: number, b: number) =>
+    values[a].localeCompare(values[b]) * sign || a - b;
+
+  switch (sort.column) {
+    case RECORD_COLUMN:
+      return indices.sort((a, b) => (a - b) * sign);
+    case TIME_COLUMN:
+      return indices.sort(compareNumbers(data.times));
+    case STATUS_COLUMN:
+      return indices.sort(compareNumbers(data.statuses));
+    case TYPE_COLUMN:
+      return indices.sort(compareText(data.types));
+    case PREDICTION_COLUMN:
+      return indices.sort(compareText(data.predictions));
+    default:
+      return data.numbers[sort.column] ? indices.sort(compareNumbers(data.numbers[sort.column])) : indices;
+  }
+};
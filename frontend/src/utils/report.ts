@@ -0,0 +1,594 @@
+import jsPDF from 'jspdf';
+import type { AnomalyDistribution, DatasetRunInfo, Equipment, FailureModeSummary, ParameterSeries } from '../types/dashboard';
+import type { Dataset } from '../types/dataset';
+import {
+  ANALYSIS_ENGINE_LABELS,
+  ANALYSIS_TYPE_LABELS,
+  DEFAULT_ANALYSIS_OPTIONS,
+  REPORT_DETAIL_LABELS,
+  SENSITIVITY_LABELS,
+} from '../types/analysis';
+import type { ReportDetail } from '../types/analysis';
+import { getFailureScore } from './predictions';
+import type { ScoreBands } from './predictions';
+import type { CrossCheckSummary } from './detection';
+import { computeFeatureBaselines, explainRecord } from './explanations';
+import type { FeatureBaseline } from './explanations';
+import { FAILURE_MODES, getFailureModes, UNSPECIFIED_MODE } from './failureModes';
+import { isOutsideRange } from './normalRanges';
+import { pointsToSeries, selectChartIndices, SERIES_STATUSES } from './series';
+
+// Everything the report is built from: the dashboard's state when Download was clicked
+export interface ReportInput {
+  title: string;
+  description: string;
+  dataset: Dataset | null; // Null for live telemetry
+  runInfo: DatasetRunInfo;
+  distribution: AnomalyDistribution;
+  failureModes: FailureModeSummary[];
+  equipments: Equipment[];
+  featureImportance: { name: string; value: number }[];
+  scoreBands: ScoreBands | null;
+  crossCheck: CrossCheckSummary | null;
+}
+
+interface ReportSections {
+  charts: boolean;
+  importance: boolean;
+  statistics: boolean;
+  factors: boolean; // Top contributing features for each anomaly
+  anomalyRows: number;
+}
+
+// What each "Report Detail Level" includes beyond the overview
+const REPORT_SECTIONS: Record<ReportDetail, ReportSections> = {
+  basic: { charts: false, importance: false, statistics: false, factors: false, anomalyRows: 0 },
+  standard: { charts: true, importance: true, statistics: false, factors: false, anomalyRows: 50 },
+  detailed: { charts: true, importance: true, statistics: true, factors: true, anomalyRows: 500 },
+  comprehensive: { charts: true, importance: true, statistics: true, factors: true, anomalyRows: 5000 },
+};
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 14;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_BOTTOM = PAGE_HEIGHT - 18;
+
+const CHART_HEIGHT = 42;
+const CHART_POINTS = 400;
+const ROW_HEIGHT = 5.5;
+
+const COLORS = {
+  primary: '#4F46E5',
+  text: '#111827',
+  muted: '#6B7280',
+  grid: '#E5E7EB',
+  band: '#9CA3AF',
+  line: '#6366F1',
+  normal: '#10B981',
+  warning: '#F59E0B',
+  anomaly: '#EF4444',
+};
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// Where the next block goes on the current page
+interface Cursor {
+  doc: jsPDF;
+  y: number;
+}
+
+// Start a new page when a block of this height doesn't fit on the current one
+const reserve = (cursor: Cursor, height: number) => {
+  if (cursor.y + height <= CONTENT_BOTTOM) return false;
+  cursor.doc.addPage();
+  cursor.y = MARGIN + 4;
+  return true;
+};
+
+const setText = (doc: jsPDF, size: number, color = COLORS.text, style: 'normal' | 'bold' = 'normal') => {
+  doc.setFont('helvetica', style);
+  doc.setFontSize(size);
+  doc.setTextColor(color);
+};
+
+// Cut text to a width, since table cells are a single line
+const fitText = (doc: jsPDF, text: string, width: number) => {
+  if (doc.getTextWidth(text) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 0 && doc.getTextWidth(`${fitted}...`) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}...`;
+};
+
+const formatNumber = (value: number, digits = 2) =>
+  Number.isFinite(value) ? value.toLocaleString(undefined, { maximumFractionDigits: digits }) : '-';
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const formatTime = (series: ParameterSeries, index: number) =>
+  series.hasTimestamps ? new Date(series.times[index]).toLocaleString() : `Record ${index + 1}`;
+
+const heading = (cursor: Cursor, text: string) => {
+  reserve(cursor, 24);
+  setText(cursor.doc, 13, COLORS.primary, 'bold');
+  cursor.doc.text(text, MARGIN, cursor.y + 5);
+  cursor.doc.setDrawColor(COLORS.grid);
+  cursor.doc.setLineWidth(0.3);
+  cursor.doc.line(MARGIN, cursor.y + 7.5, MARGIN + CONTENT_WIDTH, cursor.y + 7.5);
+  cursor.y += 13;
+};
+
+const note = (cursor: Cursor, text: string) => {
+  setText(cursor.doc, 8, COLORS.muted);
+  const lines = cursor.doc.splitTextToSize(text, CONTENT_WIDTH) as string[];
+  reserve(cursor, lines.length * 4);
+  cursor.doc.text(lines, MARGIN, cursor.y + 3);
+  cursor.y += lines.length * 4 + 2;
+};
+
+// Label / value pairs, values wrapped to the remaining width
+const keyValues = (cursor: Cursor, rows: [string, string][]) => {
+  const labelWidth = 45;
+  rows.forEach(([label, value]) => {
+    setText(cursor.doc, 9);
+    const lines = cursor.doc.splitTextToSize(value, CONTENT_WIDTH - labelWidth) as string[];
+    reserve(cursor, lines.length * 4.5 + 1.5);
+    setText(cursor.doc, 9, COLORS.muted);
+    cursor.doc.text(label, MARGIN, cursor.y + 3.5);
+    setText(cursor.doc, 9);
+    cursor.doc.text(lines, MARGIN + labelWidth, cursor.y + 3.5);
+    cursor.y += lines.length * 4.5 + 1.5;
+  });
+  cursor.y += 3;
+};
+
+// Rows split across pages, with the header repeated at the top of each
+const table = (cursor: Cursor, columns: Column[], rows: string[][]) => {
+  const { doc } = cursor;
+
+  const drawHeader = () => {
+    doc.setFillColor('#F3F4F6');
+    doc.rect(MARGIN, cursor.y, CONTENT_WIDTH, ROW_HEIGHT + 0.5, 'F');
+    setText(doc, 8, COLORS.text, 'bold');
+    let x = MARGIN;
+    columns.forEach(column => {
+      const textX = column.align === 'right' ? x + column.width - 1.5 : x + 1.5;
+      doc.text(fitText(doc, column.header, column.width - 3), textX, cursor.y + 4, { align: column.align ?? 'left' });
+      x += column.width;
+    });
+    cursor.y += ROW_HEIGHT + 0.5;
+  };
+
+  reserve(cursor, 2 * ROW_HEIGHT + 1);
+  drawHeader();
+  rows.forEach((row, rowIndex) => {
+    if (reserve(cursor, ROW_HEIGHT)) drawHeader();
+    if (rowIndex % 2 === 1) {
+      doc.setFillColor('#FAFAFA');
+      doc.rect(MARGIN, cursor.y, CONTENT_WIDTH, ROW_HEIGHT, 'F');
+    }
+    setText(doc, 8);
+    let x = MARGIN;
+    columns.forEach((column, columnIndex) => {
+      const text = fitText(doc, row[columnIndex] ?? '', column.width - 3);
+      const textX = column.align === 'right' ? x + column.width - 1.5 : x + 1.5;
+      doc.text(text, textX, cursor.y + 3.8, { align: column.align ?? 'left' });
+      x += column.width;
+    });
+    cursor.y += ROW_HEIGHT;
+  });
+  cursor.y += 5;
+};
+
+const drawCoverPage = (doc: jsPDF, input: ReportInput, detail: ReportDetail, sections: ReportSections) => {
+  doc.setFillColor(COLORS.primary);
+  doc.rect(0, 0, PAGE_WIDTH, 80, 'F');
+  setText(doc, 26, '#FFFFFF', 'bold');
+  doc.text('Anomaly Detection Report', MARGIN, 38);
+  setText(doc, 14, '#E0E7FF');
+  doc.text(doc.splitTextToSize(input.title, CONTENT_WIDTH) as string[], MARGIN, 50);
+
+  setText(doc, 10, COLORS.muted);
+  doc.text(input.description, MARGIN, 98);
+  doc.text(`Generated ${new Date().toLocaleString()}`, MARGIN, 104);
+  doc.text(`${REPORT_DETAIL_LABELS[detail]} report`, MARGIN, 110);
+
+  const contents = [
+    'Dataset and analysis options',
+    'Summary',
+    ...(sections.charts ? ['Parameter charts'] : []),
+    ...(sections.statistics ? ['Parameter statistics'] : []),
+    ...(sections.importance ? ['Feature importance'] : []),
+    'Failure modes',
+    ...(sections.anomalyRows > 0 ? ['Anomalies'] : []),
+  ];
+  setText(doc, 12, COLORS.text, 'bold');
+  doc.text('Contents', MARGIN, 130);
+  setText(doc, 10);
+  contents.forEach((section, i) => doc.text(`${i + 1}.  ${section}`, MARGIN + 2, 138 + i * 6));
+};
+
+const drawMetadata = (cursor: Cursor, input: ReportInput) => {
+  heading(cursor, 'Dataset and analysis options');
+  const { dataset } = input;
+  const rows: [string, string][] = dataset
+    ? [
+        ['Dataset', dataset.name],
+        ['Records', dataset.records.toLocaleString()],
+        ['Size', dataset.size],
+        ['Analysed', new Date(dataset.createdAt).toLocaleString()],
+        ['Source', dataset.isCustom ? 'Uploaded file' : 'Sample dataset'],
+        ...(dataset.tags.length > 0 ? [['Tags', dataset.tags.join(', ')] as [string, string]] : []),
+      ]
+    : [['Source', input.description], ['Readings', input.runInfo.totalPoints.toLocaleString()]];
+
+  const options = dataset?.analysisOptions;
+  if (options) {
+    rows.push(
+      ['Sensitivity', options.sensitivity === 'custom'
+        ? `Custom threshold (p >= ${options.customThreshold})`
+        : SENSITIVITY_LABELS[options.sensitivity]],
+      ['Analysis type', ANALYSIS_TYPE_LABELS[options.analysisType]],
+      ['Detection engine', ANALYSIS_ENGINE_LABELS[options.engine ?? DEFAULT_ANALYSIS_OPTIONS.engine]],
+      ['Report detail', REPORT_DETAIL_LABELS[options.reportDetail]],
+    );
+  } else if (dataset) {
+    rows.push(['Analysis options', 'Not recorded for this dataset']);
+  }
+  if (input.scoreBands) {
+    rows.push(['Score bands', `Warning from p >= ${input.scoreBands.warning}, anomaly from p >= ${input.scoreBands.anomaly}`]);
+  }
+  keyValues(cursor, rows);
+};
+
+const drawSummary = (cursor: Cursor, input: ReportInput, sections: ReportSections) => {
+  const { doc } = cursor;
+  heading(cursor, 'Summary');
+
+  const { distribution } = input;
+  const total = distribution.normal + distribution.warning + distribution.anomaly;
+  const kpis: [string, string][] = [
+    ['Records analysed', input.runInfo.totalPoints.toLocaleString()],
+    ['Anomalies', input.runInfo.anomaliesFound.toLocaleString()],
+    ['Anomaly rate', total > 0 ? formatPercent(distribution.anomaly / total) : '-'],
+    ['Warnings', distribution.warning.toLocaleString()],
+  ];
+
+  // KPI tiles across the page
+  reserve(cursor, 24);
+  const tileWidth = (CONTENT_WIDTH - 3 * 4) / 4;
+  kpis.forEach(([label, value], i) => {
+    const x = MARGIN + i * (tileWidth + 4);
+    doc.setDrawColor(COLORS.grid);
+    doc.setFillColor('#F9FAFB');
+    doc.roundedRect(x, cursor.y, tileWidth, 20, 2, 2, 'FD');
+    setText(doc, 8, COLORS.muted);
+    doc.text(label, x + 3, cursor.y + 6);
+    setText(doc, 15, i === 1 ? COLORS.anomaly : COLORS.text, 'bold');
+    doc.text(value, x + 3, cursor.y + 15);
+  });
+  cursor.y += 27;
+
+  // Share of each status as one stacked bar
+  if (total > 0) {
+    reserve(cursor, 18);
+    let x = MARGIN;
+    SERIES_STATUSES.forEach(status => {
+      const width = (distribution[status] / total) * CONTENT_WIDTH;
+      doc.setFillColor(COLORS[status]);
+      doc.rect(x, cursor.y, width, 6, 'F');
+      x += width;
+    });
+    let legendX = MARGIN;
+    SERIES_STATUSES.forEach(status => {
+      doc.setFillColor(COLORS[status]);
+      doc.rect(legendX, cursor.y + 9, 3, 3, 'F');
+      setText(doc, 8, COLORS.muted);
+      const label = `${status[0].toUpperCase()}${status.slice(1)}: ${distribution[status].toLocaleString()} (${formatPercent(distribution[status] / total)})`;
+      doc.text(label, legendX + 4.5, cursor.y + 11.5);
+      legendX += doc.getTextWidth(label) + 12;
+    });
+    cursor.y += 18;
+  }
+
+  if (input.crossCheck && sections.statistics) {
+    const { crossCheck } = input;
+    keyValues(cursor, [
+      ['Detector agreement', `${formatPercent(crossCheck.agreed / crossCheck.compared)} of ${crossCheck.compared.toLocaleString()} records`],
+      ['Flagged by model only', crossCheck.modelOnly.toLocaleString()],
+      ['Flagged in browser only', crossCheck.localOnly.toLocaleString()],
+    ]);
+  }
+};
+
+// Vector line chart of one parameter with its normal band and flagged records
+const drawParameterChart = (cursor: Cursor, equipment: Equipment) => {
+  const { doc } = cursor;
+  const series = equipment.series ?? pointsToSeries(equipment.data);
+  const count = series.values.length;
+  if (count === 0) return;
+
+  const indices = selectChartIndices(series, 0, count, CHART_POINTS);
+  const finite = indices.filter(index => Number.isFinite(series.values[index]));
+  if (finite.length === 0) return;
+
+  reserve(cursor, CHART_HEIGHT + 16);
+  setText(doc, 10, COLORS.text, 'bold');
+  doc.text(equipment.name, MARGIN, cursor.y + 4);
+  setText(doc, 8, COLORS.muted);
+  doc.text(
+    `Normal ${formatNumber(equipment.normalRange.min)} - ${formatNumber(equipment.normalRange.max)}`,
+    MARGIN + CONTENT_WIDTH,
+    cursor.y + 4,
+    { align: 'right' }
+  );
+  cursor.y += 7;
+
+  const left = MARGIN + 14;
+  const width = CONTENT_WIDTH - 14;
+  const top = cursor.y;
+  const xMin = series.times[finite[0]];
+  const xMax = series.times[finite[finite.length - 1]];
+  let yMin = Infinity;
+  let yMax = -Infinity;
+  finite.forEach(index => {
+    const range = series.ranges[series.rangeIndex[index]];
+    yMin = Math.min(yMin, series.values[index], range.min);
+    yMax = Math.max(yMax, series.values[index], range.max);
+  });
+  const padding = (yMax - yMin) * 0.05 || 1;
+  yMin -= padding;
+  yMax += padding;
+
+  const toX = (index: number) => left + (xMax > xMin ? ((series.times[index] - xMin) / (xMax - xMin)) * width : width / 2);
+  const toY = (value: number) => top + CHART_HEIGHT - ((value - yMin) / (yMax - yMin)) * CHART_HEIGHT;
+
+  // Frame, gridlines and y labels
+  doc.setDrawColor(COLORS.grid);
+  doc.setLineWidth(0.2);
+  setText(doc, 6, COLORS.muted);
+  for (let step = 0; step <= 4; step++) {
+    const value = yMin + ((yMax - yMin) * step) / 4;
+    doc.line(left, toY(value), left + width, toY(value));
+    doc.text(formatNumber(value, 1), left - 1.5, toY(value) + 1, { align: 'right' });
+  }
+  doc.rect(left, top, width, CHART_HEIGHT);
+
+  // Normal band as dashed step lines, since it can change with the product Type
+  doc.setDrawColor(COLORS.band);
+  doc.setLineDashPattern([1, 1], 0);
+  for (let i = 1; i < finite.length; i++) {
+    const previous = series.ranges[series.rangeIndex[finite[i - 1]]];
+    const x1 = toX(finite[i - 1]);
+    const x2 = toX(finite[i]);
+    doc.line(x1, toY(previous.min), x2, toY(previous.min));
+    doc.line(x1, toY(previous.max), x2, toY(previous.max));
+  }
+  doc.setLineDashPattern([], 0);
+
+  doc.setDrawColor(COLORS.line);
+  doc.setLineWidth(0.3);
+  for (let i = 1; i < finite.length; i++) {
+    doc.line(toX(finite[i - 1]), toY(series.values[finite[i - 1]]), toX(finite[i]), toY(series.values[finite[i]]));
+  }
+
+  finite.forEach(index => {
+    const status = SERIES_STATUSES[series.statuses[index]];
+    if (status === 'normal') return;
+    doc.setFillColor(COLORS[status]);
+    doc.circle(toX(index), toY(series.values[index]), status === 'anomaly' ? 0.8 : 0.6, 'F');
+  });
+
+  setText(doc, 6, COLORS.muted);
+  doc.text(formatTime(series, finite[0]), left, top + CHART_HEIGHT + 3.5);
+  doc.text(formatTime(series, finite[finite.length - 1]), left + width, top + CHART_HEIGHT + 3.5, { align: 'right' });
+  cursor.y = top + CHART_HEIGHT + 9;
+};
+
+const drawStatistics = (cursor: Cursor, equipments: Equipment[]) => {
+  heading(cursor, 'Parameter statistics');
+  const rows = equipments.map(equipment => {
+    const series = equipment.series ?? pointsToSeries(equipment.data);
+    let count = 0;
+    let sum = 0;
+    let min = Infinity;
+    let max = -Infinity;
+    let outside = 0;
+    series.values.forEach((value, i) => {
+      if (!Number.isFinite(value)) return;
+      count++;
+      sum += value;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+      if (isOutsideRange(value, series.ranges[series.rangeIndex[i]])) outside++;
+    });
+    return [
+      equipment.name,
+      formatNumber(min),
+      formatNumber(count > 0 ? sum / count : NaN),
+      formatNumber(max),
+      `${formatNumber(equipment.normalRange.min)} - ${formatNumber(equipment.normalRange.max)}`,
+      count > 0 ? `${outside.toLocaleString()} (${formatPercent(outside / count)})` : '-',
+    ];
+  });
+  table(cursor, [
+    { header: 'Parameter', width: 46 },
+    { header: 'Min', width: 22, align: 'right' },
+    { header: 'Mean', width: 22, align: 'right' },
+    { header: 'Max', width: 22, align: 'right' },
+    { header: 'Normal range', width: 36, align: 'right' },
+    { header: 'Outside range', width: 34, align: 'right' },
+  ], rows);
+};
+
+const drawFeatureImportance = (cursor: Cursor, featureImportance: ReportInput['featureImportance']) => {
+  const { doc } = cursor;
+  heading(cursor, 'Feature importance');
+  if (featureImportance.length === 0) {
+    note(cursor, 'Feature importance is only available for analysed datasets.');
+    return;
+  }
+
+  const labelWidth = 52;
+  const barWidth = CONTENT_WIDTH - labelWidth - 16;
+  const largest = Math.max(...featureImportance.map(item => item.value), 0.0001);
+  featureImportance.forEach(item => {
+    reserve(cursor, 7);
+    setText(doc, 8);
+    doc.text(fitText(doc, item.name, labelWidth - 2), MARGIN, cursor.y + 4);
+    doc.setFillColor(COLORS.line);
+    doc.rect(MARGIN + labelWidth, cursor.y + 1, (item.value / largest) * barWidth, 4, 'F');
+    setText(doc, 8, COLORS.muted);
+    doc.text(formatPercent(item.value), MARGIN + labelWidth + (item.value / largest) * barWidth + 2, cursor.y + 4);
+    cursor.y += 7;
+  });
+  note(cursor, 'Features ranked by how strongly they separate anomalous records from normal ones.');
+};
+
+const drawFailureModes = (cursor: Cursor, failureModes: FailureModeSummary[]) => {
+  heading(cursor, 'Failure modes');
+  const total = failureModes.reduce((sum, summary) => sum + summary.count, 0);
+  if (total === 0) {
+    note(cursor, 'No anomalies were attributed to a failure mode.');
+    return;
+  }
+  const rows = failureModes
+    .filter(summary => summary.count > 0)
+    .map(summary => {
+      const info = FAILURE_MODES.find(({ mode }) => mode === summary.mode);
+      return [
+        summary.mode,
+        info ? info.label : 'Not attributed to a mode',
+        summary.count.toLocaleString(),
+        formatPercent(summary.count / total),
+        info ? info.action : '-',
+      ];
+    });
+  table(cursor, [
+    { header: 'Mode', width: 20 },
+    { header: 'Description', width: 50 },
+    { header: 'Anomalies', width: 22, align: 'right' },
+    { header: 'Share', width: 18, align: 'right' },
+    { header: 'Suggested action', width: 72 },
+  ], rows);
+};
+
+const drawAnomalies = (cursor: Cursor, input: ReportInput, sections: ReportSections) => {
+  heading(cursor, 'Anomalies');
+  const { dataset, equipments } = input;
+  const series = equipments[0]?.series;
+
+  if (dataset && series) {
+    const anomalyCode = SERIES_STATUSES.indexOf('anomaly');
+    const indices: number[] = [];
+    let total = 0;
+    series.statuses.forEach((code, i) => {
+      if (code !== anomalyCode) return;
+      total++;
+      if (indices.length < sections.anomalyRows) indices.push(i);
+    });
+    if (total === 0) {
+      note(cursor, 'No records were classified as anomalies.');
+      return;
+    }
+
+    let baselines: Record<string, FeatureBaseline> | null = null;
+    const rows = indices.map(index => {
+      const record = dataset.data[index];
+      const modes = getFailureModes(record);
+      const row = [
+        (index + 1).toLocaleString(),
+        formatTime(series, index),
+        typeof record.Type === 'string' ? record.Type : '-',
+        getFailureScore(record).toFixed(3),
+        modes.length > 0 ? modes.join(', ') : UNSPECIFIED_MODE,
+      ];
+      if (sections.factors) {
+        baselines ??= computeFeatureBaselines(dataset.data);
+        const { contributions } = explainRecord(record, baselines);
+        row.push(contributions.slice(0, 2).map(({ feature, value }) => `${feature} ${formatNumber(value)}`).join('; '));
+      }
+      return row;
+    });
+
+    note(cursor, total > rows.length
+      ? `First ${rows.length.toLocaleString()} of ${total.toLocaleString()} anomalous records, in dataset order.`
+      : `All ${total.toLocaleString()} anomalous records, in dataset order.`);
+    table(cursor, [
+      { header: 'Record', width: 16, align: 'right' },
+      { header: 'Time', width: sections.factors ? 36 : 60 },
+      { header: 'Type', width: 12 },
+      { header: 'Score', width: 16, align: 'right' },
+      { header: 'Failure modes', width: sections.factors ? 26 : 78 },
+      ...(sections.factors ? [{ header: 'Main factors', width: 76 }] : []),
+    ], rows);
+    return;
+  }
+
+  // Live readings outside their normal band, newest first
+  const readings = equipments
+    .flatMap(equipment => equipment.data
+      .filter(point => point.isAnomaly)
+      .map(point => ({ equipment, point })))
+    .sort((a, b) => b.point.timestamp.localeCompare(a.point.timestamp));
+  if (readings.length === 0) {
+    note(cursor, 'No readings in the live window were outside their normal range.');
+    return;
+  }
+  const rows = readings.slice(0, sections.anomalyRows).map(({ equipment, point }) => [
+    new Date(point.timestamp).toLocaleString(),
+    equipment.name,
+    formatNumber(point.value),
+    `${formatNumber(point.normalRange.min)} - ${formatNumber(point.normalRange.max)}`,
+  ]);
+  note(cursor, `Anomalous readings in the current live window (${rows.length.toLocaleString()} of ${readings.length.toLocaleString()}).`);
+  table(cursor, [
+    { header: 'Time', width: 52 },
+    { header: 'Parameter', width: 60 },
+    { header: 'Value', width: 30, align: 'right' },
+    { header: 'Normal range', width: 40, align: 'right' },
+  ], rows);
+};
+
+// Title and page numbers on every page after the cover
+const drawFooters = (doc: jsPDF, title: string) => {
+  const pages = doc.getNumberOfPages();
+  for (let page = 2; page <= pages; page++) {
+    doc.setPage(page);
+    setText(doc, 7, COLORS.muted);
+    doc.text(fitText(doc, title, CONTENT_WIDTH - 30), MARGIN, PAGE_HEIGHT - 8);
+    doc.text(`Page ${page} of ${pages}`, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - 8, { align: 'right' });
+  }
+};
+
+// Text and vector report of the dashboard, laid out according to the dataset's report detail level
+export const buildAnomalyReport = (input: ReportInput): jsPDF => {
+  const detail = input.dataset?.analysisOptions?.reportDetail ?? DEFAULT_ANALYSIS_OPTIONS.reportDetail;
+  const sections = REPORT_SECTIONS[detail];
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  doc.setProperties({ title: `Anomaly Detection Report - ${input.title}`, subject: input.description });
+
+  drawCoverPage(doc, input, detail, sections);
+  doc.addPage();
+  const cursor: Cursor = { doc, y: MARGIN + 4 };
+
+  drawMetadata(cursor, input);
+  drawSummary(cursor, input, sections);
+
+  if (sections.charts && input.equipments.length > 0) {
+    heading(cursor, 'Parameter charts');
+    input.equipments.forEach(equipment => drawParameterChart(cursor, equipment));
+  }
+  if (sections.statistics && input.equipments.length > 0) drawStatistics(cursor, input.equipments);
+  if (sections.importance) drawFeatureImportance(cursor, input.featureImportance);
+  drawFailureModes(cursor, input.failureModes);
+  if (sections.anomalyRows > 0) drawAnomalies(cursor, input, sections);
+
+  drawFooters(doc, input.title);
+  return doc;
+};
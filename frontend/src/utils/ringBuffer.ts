@@ -0,0 +1,41 @@
+// Fixed-capacity FIFO that overwrites its oldest entry once full
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start = 0;
+  private capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = Math.max(1, Math.floor(capacity));
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  // Change the capacity, keeping the most recent entries
+  resize(capacity: number) {
+    const ordered = this.toArray();
+    this.capacity = Math.max(1, Math.floor(capacity));
+    this.items = ordered.slice(-this.capacity);
+    this.start = 0;
+  }
+
+  clear() {
+    this.items = [];
+    this.start = 0;
+  }
+
+  // Entries ordered from oldest to newest
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
@@ -0,0 +1,149 @@
+import type { DataPoint, EquipmentStatus, ParameterSeries, RecordWindow, TimeRange } from '../types/dashboard';
+import type { PredictionRecord } from '../services/api/types';
+import { lttb } from './downsample';
+
+// Status codes stored in ParameterSeries.statuses
+export const SERIES_STATUSES: EquipmentStatus[] = ['normal', 'warning', 'anomaly'];
+const NORMAL_CODE = SERIES_STATUSES.indexOf('normal');
+const ANOMALY_CODE = SERIES_STATUSES.indexOf('anomaly');
+
+export const HOUR_MS = 3600000;
+export const TIME_RANGES: { value: TimeRange; label: string; span: number }[] = [
+  { value: '1h', label: '1h', span: HOUR_MS },
+  { value: '1d', label: '1d', span: 24 * HOUR_MS },
+  { value: '1w', label: '1w', span: 7 * 24 * HOUR_MS },
+  { value: '1m', label: '1m', span: 30 * 24 * HOUR_MS },
+  { value: 'all', label: 'All', span: Infinity },
+];
+
+// Record times for the x axis. Timestamps are only used when every record has one and
+// they never go backwards, otherwise records are placed by position.
+export const getSeriesTimes = (records: PredictionRecord[]) => {
+  const times = new Float64Array(records.length);
+  let hasTimestamps = records.length > 0;
+
+  for (let i = 0; i < records.length; i++) {
+    const time = typeof records[i].timestamp === 'string' ? Date.parse(records[i].timestamp as string) : NaN;
+    if (!Number.isFinite(time) || (i > 0 && time < times[i - 1])) {
+      hasTimestamps = false;
+      break;
+    }
+    times[i] = time;
+  }
+
+  if (!hasTimestamps) {
+    for (let i = 0; i < records.length; i++) times[i] = i;
+  }
+  return { times, hasTimestamps };
+};
+
+export const getSeriesPoint = (series: ParameterSeries, index: number): DataPoint => {
+  const status = SERIES_STATUSES[series.statuses[index]];
+  return {
+    timestamp: series.hasTimestamps ? new Date(series.times[index]).toISOString() : `Point ${index + 1}`,
+    value: series.values[index],
+    normalRange: series.ranges[series.rangeIndex[index]],
+    isAnomaly: status === 'anomaly',
+    status,
+    score: series.scores[index],
+    failureModes: series.failureModes[index],
+    recordIndex: index,
+  };
+};
+
+// Series view of live readings, so the detail chart has a single code path
+export const pointsToSeries = (points: DataPoint[]): ParameterSeries => {
+  const times = points.map(point => Date.parse(point.timestamp));
+  const hasTimestamps = times.every((time, i) => Number.isFinite(time) && (i === 0 || time >= times[i - 1]));
+  const ranges = [...new Set(points.map(point => point.normalRange))];
+
+  return {
+    times: Float64Array.from(hasTimestamps ? times : points.map((_, i) => i)),
+    hasTimestamps,
+    values: Float64Array.from(points.map(point => point.value)),
+    statuses: Uint8Array.from(points.map(point =>
+      point.isAnomaly ? ANOMALY_CODE : SERIES_STATUSES.indexOf(point.status || 'normal')
+    )),
+    scores: Float64Array.from(points.map(point => point.score ?? 0)),
+    failureModes: points.map(point => point.failureModes || []),
+    ranges,
+    rangeIndex: Uint8Array.from(points.map(point => ranges.indexOf(point.normalRange))),
+  };
+};
+
+// First index whose time is at or after `time`
+export const lowerBound = (times: ArrayLike<number>, time: number) => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (times[middle] < time) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+};
+
+// Records in the time range, counted back from the newest one
+export const getTimeRangeWindow = (series: ParameterSeries, timeRange: TimeRange): RecordWindow => {
+  const end = series.values.length;
+  const span = TIME_RANGES.find(range => range.value === timeRange)!.span;
+  if (!series.hasTimestamps || !Number.isFinite(span) || end === 0) return { start: 0, end };
+  return { start: lowerBound(series.times, series.times[end - 1] - span), end };
+};
+
+// Records the parameter charts show: the time range, narrowed by the zoom if there is one
+export const getChartWindow = (series: ParameterSeries, timeRange: TimeRange, zoom: RecordWindow | null): RecordWindow => {
+  const range = getTimeRangeWindow(series, timeRange);
+  if (!zoom) return range;
+  const start = Math.max(range.start, zoom.start);
+  const end = Math.min(range.end, zoom.end);
+  return start < end ? { start, end } : range;
+};
+
+// Indices to draw for records [start, end): an LTTB outline of the values, plus every
+// flagged record so downsampling never hides one, unless there are too many to mark
+export const selectChartIndices = (
+  series: ParameterSeries,
+  start: number,
+  end: number,
+  maxPoints: number,
+  maxMarkers = maxPoints
+): number[] => {
+  const outline = lttb(series.times, series.values, maxPoints, start, end);
+  if (end - start <= maxPoints) return outline;
+
+  const flagged: number[] = [];
+  for (let i = start; i < end && flagged.length <= maxMarkers; i++) {
+    if (series.statuses[i] !== NORMAL_CODE) flagged.push(i);
+  }
+  if (flagged.length === 0 || flagged.length > maxMarkers) return outline;
+
+  return [...new Set([...outline, ...flagged])].sort((a, b) => a - b);
+};
+
+// Indices of the last `count` records that are anomalies, newest first
+export const findLatestAnomalies = (series: ParameterSeries, count: number) => {
+  const indices: number[] = [];
+  for (let i = series.statuses.length - 1; i >= 0 && indices.length < count; i--) {
+    if (series.statuses[i] === ANOMALY_CODE) indices.push(i);
+  }
+  return indices;
+};
+
+// Records to plot when every point can't be drawn: an even sample of the series, plus
+// flagged records (which are rarer) up to their own cap, in record order
+export const sampleIndices = (statuses: Uint8Array, maxPoints: number, maxFlagged = maxPoints) => {
+  const step = Math.max(1, statuses.length / maxPoints);
+  const selected = new Set<number>();
+  for (let position = 0; position < statuses.length; position += step) {
+    selected.add(Math.floor(position));
+  }
+  let flagged = 0;
+  for (let i = 0; i < statuses.length && flagged < maxFlagged; i++) {
+    if (statuses[i] !== NORMAL_CODE) {
+      selected.add(i);
+      flagged++;
+    }
+  }
+  return [...selected].sort((a, b) => a - b);
+};
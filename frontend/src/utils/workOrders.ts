@@ -0,0 +1,92 @@
+import type { Equipment, ParameterSeries } from '../types/dashboard';
+import type { WorkOrder, WorkOrderPriority, WorkOrderReading } from '../types/workOrders';
+import { renderSnapshotSvg } from './chartSnapshot';
+import type { ExportRow } from './exportResults';
+import { getFailureModeInfo } from './failureModes';
+import { isOutsideRange } from './normalRanges';
+import { getSeriesPoint, pointsToSeries } from './series';
+
+let workOrderCount = 0;
+
+const getPriority = (isAnomaly: boolean, outsideCount: number, score?: number): WorkOrderPriority => {
+  if (isAnomaly && score !== undefined && score >= 0.9) return 'urgent';
+  if (isAnomaly) return 'high';
+  return outsideCount > 0 ? 'medium' : 'low';
+};
+
+const formatReading = (reading: WorkOrderReading) =>
+  `${reading.parameter} ${reading.value.toFixed(2)} (normal ${reading.normalRange.min.toFixed(2)} – ${reading.normalRange.max.toFixed(2)})`;
+
+// A new work order filled in from one reading of a parameter: index is the dataset record,
+// or the position in a live parameter's readings. Source and ids are set when it's saved.
+export const buildWorkOrderDraft = (equipments: Equipment[], equipmentId: string, index: number): WorkOrder | null => {
+  const equipment = equipments.find(eq => eq.id === equipmentId);
+  if (!equipment) return null;
+  const series: ParameterSeries = equipment.series ?? pointsToSeries(equipment.data);
+  if (index < 0 || index >= series.values.length) return null;
+  const point = getSeriesPoint(series, index);
+
+  // Dataset parameters share records, so every parameter's value at the record is known;
+  // live parameters arrive separately and only the one reading applies
+  const related = equipment.series ? equipments.filter(eq => eq.series) : [equipment];
+  const readings = related
+    .map(eq => {
+      const value = eq.series ? eq.series.values[index] : point.value;
+      const normalRange = eq.series ? eq.series.ranges[eq.series.rangeIndex[index]] : point.normalRange;
+      return { parameter: eq.name, value, normalRange, isOutside: isOutsideRange(value, normalRange) };
+    })
+    .filter(reading => Number.isFinite(reading.value))
+    .sort((a, b) => Number(b.isOutside) - Number(a.isOutside));
+  const outside = readings.filter(reading => reading.isOutside);
+
+  const failureModes = point.failureModes ?? [];
+  const score = equipment.series ? point.score : undefined;
+  const cause = failureModes.length > 0
+    ? failureModes.map(mode => getFailureModeInfo(mode).label).join(', ')
+    : outside.length > 0 ? 'readings outside normal range' : 'anomalous reading';
+  const now = new Date().toISOString();
+
+  return {
+    id: `WO-${Date.now().toString(36).toUpperCase()}-${++workOrderCount}`,
+    title: `Inspect ${equipment.name}: ${cause}`,
+    description: [
+      `Anomaly on ${equipment.name} at ${point.timestamp}.`,
+      ...(outside.length > 0 ? [`Outside normal range: ${outside.map(formatReading).join('; ')}.`] : []),
+      ...(score !== undefined ? [`Predicted failure probability ${(score * 100).toFixed(1)}%.`] : []),
+      ...failureModes.map(mode => `${getFailureModeInfo(mode).label}: ${getFailureModeInfo(mode).action}`),
+    ].join('\n'),
+    equipment: equipment.name,
+    source: '',
+    timestamp: point.timestamp,
+    readings,
+    failureModes,
+    failureProbability: score,
+    priority: getPriority(point.isAnomaly, outside.length, score),
+    status: 'open',
+    assignee: '',
+    chartSnapshot: renderSnapshotSvg(series, index, `${equipment.name} at ${point.timestamp}`),
+    history: [{ status: 'open', at: now }],
+    createdAt: now,
+    updatedAt: now,
+    recordIndex: equipment.series ? index : undefined,
+  };
+};
+
+// Flat rows for CSV export; the chart snapshot is left out
+export const workOrdersToRows = (orders: WorkOrder[]): ExportRow[] => orders.map(order => ({
+  id: order.id,
+  title: order.title,
+  status: order.status,
+  priority: order.priority,
+  equipment: order.equipment,
+  source: order.source,
+  timestamp: order.timestamp,
+  failure_modes: order.failureModes.join(';'),
+  failure_probability: order.failureProbability ?? null,
+  readings: order.readings.filter(reading => reading.isOutside).map(formatReading).join('; '),
+  assignee: order.assignee,
+  description: order.description,
+  created_at: order.createdAt,
+  updated_at: order.updatedAt,
+  external_id: order.externalId ?? null,
+}));
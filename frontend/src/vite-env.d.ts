@@ -2,6 +2,11 @@
 
 interface ImportMetaEnv {
     readonly VITE_API_URL: string;
+    readonly VITE_GATEWAY_URL: string;
+    readonly VITE_MQTT_URL: string;
+    readonly VITE_MAX_UPLOAD_MB: string;
+    readonly VITE_API_MOCK: string;
+    readonly VITE_CHUNKED_UPLOADS: string;
     // Add other environment variables as needed
   }
   
@@ -0,0 +1,87 @@
+// Parses, maps, serialises and runs local anomaly detection on datasets off the main thread.
+// The full row set stays here; the page only receives previews.
+import Papa from 'papaparse';
+import { MAX_PREVIEW_ROWS, parseDatasetFile } from '../utils/datasetParser';
+import type { ParsedDataset } from '../utils/datasetParser';
+import { applyColumnMapping } from '../utils/columnMapping';
+import type { ColumnMapping } from '../utils/columnMapping';
+import { detectAnomalies } from '../utils/detection';
+import type { AnalysisOptions } from '../types/analysis';
+import type { PredictionRecord } from '../services/api/types';
+
+export type DatasetWorkerRequest =
+  | { id: number; type: 'parse'; file: File }
+  | { id: number; type: 'prepare'; mapping: ColumnMapping | null }
+  | { id: number; type: 'export'; fileName: string }
+  // Detects on the given records, or on the prepared upload when none are sent
+  | { id: number; type: 'detect'; options: AnalysisOptions; records?: PredictionRecord[] };
+
+export type DatasetWorkerResponse =
+  | { id: number; type: 'dataset'; dataset: ParsedDataset }
+  | { id: number; type: 'file'; file: File }
+  | { id: number; type: 'predictions'; records: PredictionRecord[] }
+  | { id: number; type: 'error'; message: string };
+
+// Rows serialised per CSV chunk while exporting
+const EXPORT_CHUNK_ROWS = 10000;
+
+let parsed: ParsedDataset | null = null;
+let prepared: ParsedDataset | null = null;
+
+const toPreview = (dataset: ParsedDataset): ParsedDataset => ({
+  ...dataset,
+  rows: dataset.rows.slice(0, MAX_PREVIEW_ROWS),
+});
+
+const reply = (response: DatasetWorkerResponse) => {
+  (self as unknown as Worker).postMessage(response);
+};
+
+const exportCsv = (dataset: ParsedDataset, fileName: string) => {
+  const columns = dataset.columns.map(column => column.name);
+  const parts: string[] = [];
+
+  for (let start = 0; start < dataset.rows.length; start += EXPORT_CHUNK_ROWS) {
+    const chunk = Papa.unparse(dataset.rows.slice(start, start + EXPORT_CHUNK_ROWS), {
+      columns,
+      header: start === 0,
+    });
+    parts.push(start === 0 ? chunk : '\r\n' + chunk);
+  }
+
+  return new File(parts, fileName, { type: 'text/csv' });
+};
+
+self.onmessage = async (event: MessageEvent<DatasetWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'parse':
+        parsed = await parseDatasetFile(request.file);
+        prepared = parsed;
+        reply({ id: request.id, type: 'dataset', dataset: toPreview(parsed) });
+        break;
+
+      case 'prepare':
+        if (!parsed) throw new Error('No dataset has been parsed yet');
+        prepared = request.mapping ? applyColumnMapping(parsed, request.mapping) : parsed;
+        reply({ id: request.id, type: 'dataset', dataset: toPreview(prepared) });
+        break;
+
+      case 'export':
+        if (!prepared) throw new Error('No dataset has been parsed yet');
+        reply({ id: request.id, type: 'file', file: exportCsv(prepared, request.fileName) });
+        break;
+
+      case 'detect': {
+        const records = request.records ?? (prepared?.rows as PredictionRecord[] | undefined);
+        if (!records) throw new Error('No dataset has been parsed yet');
+        reply({ id: request.id, type: 'predictions', records: detectAnomalies(records, request.options) });
+        break;
+      }
+    }
+  } catch (error) {
+    reply({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,90 @@
+import type { DatasetWorkerRequest, DatasetWorkerResponse } from './datasetWorker';
+import type { ParsedDataset } from '../utils/datasetParser';
+import type { ColumnMapping } from '../utils/columnMapping';
+import type { AnalysisOptions } from '../types/analysis';
+import type { PredictionRecord } from '../services/api/types';
+
+// Omit applied to each member of the request union
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type RequestBody = WithoutId<DatasetWorkerRequest>;
+
+export interface DatasetWorkerClient {
+  parse: (file: File, signal?: AbortSignal) => Promise<ParsedDataset>;
+  prepare: (mapping: ColumnMapping | null, signal?: AbortSignal) => Promise<ParsedDataset>;
+  exportCsv: (fileName: string, signal?: AbortSignal) => Promise<File>;
+  detect: (options: AnalysisOptions, records?: PredictionRecord[], signal?: AbortSignal) => Promise<PredictionRecord[]>;
+  terminate: () => void;
+}
+
+// Promise wrapper around the dataset worker; each call resolves with its own response.
+// Aborting a call only rejects it: the worker can't be interrupted mid-task, so callers
+// that need the work stopped terminate the worker as well.
+export const createDatasetWorker = (): DatasetWorkerClient => {
+  const worker = new Worker(new URL('./datasetWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (response: DatasetWorkerResponse) => void; reject: (error: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (event: MessageEvent<DatasetWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  worker.onerror = (event) => {
+    pending.forEach(request => request.reject(new Error(event.message || 'Dataset worker crashed')));
+    pending.clear();
+  };
+
+  const send = (body: RequestBody, signal?: AbortSignal) =>
+    new Promise<DatasetWorkerResponse>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const id = ++nextId;
+      const onAbort = () => {
+        pending.delete(id);
+        reject(signal?.reason);
+      };
+      const settle = () => signal?.removeEventListener('abort', onAbort);
+      pending.set(id, {
+        resolve: response => { settle(); resolve(response); },
+        reject: error => { settle(); reject(error); },
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage({ ...body, id } as DatasetWorkerRequest);
+    });
+
+  const expectDataset = async (body: RequestBody, signal?: AbortSignal) => {
+    const response = await send(body, signal);
+    if (response.type !== 'dataset') throw new Error(`Unexpected worker response: ${response.type}`);
+    return response.dataset;
+  };
+
+  return {
+    parse: (file, signal) => expectDataset({ type: 'parse', file }, signal),
+    prepare: (mapping, signal) => expectDataset({ type: 'prepare', mapping }, signal),
+    exportCsv: async (fileName, signal) => {
+      const response = await send({ type: 'export', fileName }, signal);
+      if (response.type !== 'file') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.file;
+    },
+    detect: async (options, records, signal) => {
+      const response = await send({ type: 'detect', options, records }, signal);
+      if (response.type !== 'predictions') throw new Error(`Unexpected worker response: ${response.type}`);
+      return response.records;
+    },
+    terminate: () => {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error('Dataset worker terminated')));
+      pending.clear();
+    },
+  };
+};